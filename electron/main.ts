@@ -5,6 +5,9 @@ import { DatabaseService } from './services/database'
 import { FileIndexer } from './services/indexer'
 import { FileWatcher } from './services/file-watcher'
 import { IpcHandlers } from './services/ipc-handlers'
+import { SearchWorkerPool } from './services/search-pool'
+import { SavedSearchService } from './services/saved-searches'
+import { SavedSearch } from '../src/types'
 
 // const require = createRequire(import.meta.url) // Unused
 const __dirname = path.dirname(fileURLToPath(import.meta.url))
@@ -16,6 +19,8 @@ const __dirname = path.dirname(fileURLToPath(import.meta.url))
 // │ │
 // │ ├─┬ dist-electron
 // │ │ ├── main.js
+// │ │ ├── search-worker.js
+// │ │ ├── scan-worker.js
 // │ │ └── preload.mjs
 // │
 process.env.APP_ROOT = path.join(__dirname, '..')
@@ -32,6 +37,9 @@ let tray: Tray | null = null
 let db: DatabaseService
 let indexer: FileIndexer
 let fileWatcher: FileWatcher
+let searchPool: SearchWorkerPool
+let savedSearches: SavedSearchService
+let pinnedSearches: SavedSearch[] = []
 let ipcHandlers: IpcHandlers
 let isQuitting = false
 let hasTriggeredAutoIndexing = false
@@ -72,8 +80,28 @@ function createTray() {
   }
 
   tray = new Tray(trayIcon)
+  tray.setContextMenu(buildTrayMenu())
+  tray.setToolTip('Seekr - Lightning fast file finder')
+
+  // Double click to show window
+  tray.on('double-click', () => {
+    win?.show()
+    win?.focus()
+  })
+}
 
-  const contextMenu = Menu.buildFromTemplate([
+// Pinned saved searches sit under Search..., labelled with their live counts
+function buildTrayMenu() {
+  const savedSearchItems: Electron.MenuItemConstructorOptions[] = pinnedSearches.map(search => ({
+    label: search.count !== undefined ? `${search.name} (${search.count.toLocaleString()})` : search.name,
+    click: () => {
+      win?.show()
+      win?.focus()
+      win?.webContents.send('run-saved-search', search)
+    }
+  }))
+
+  return Menu.buildFromTemplate([
     {
       label: 'Show Seekr',
       click: () => {
@@ -90,6 +118,7 @@ function createTray() {
         win?.webContents.send('focus-search')
       }
     },
+    ...(savedSearchItems.length > 0 ? [{ type: 'separator' as const }, ...savedSearchItems] : []),
     { type: 'separator' },
     {
       label: 'Start Indexing',
@@ -116,31 +145,39 @@ function createTray() {
       }
     }
   ])
-
-  tray.setContextMenu(contextMenu)
-  tray.setToolTip('Seekr - Lightning fast file finder')
-
-  // Double click to show window
-  tray.on('double-click', () => {
-    win?.show()
-    win?.focus()
-  })
 }
 
 async function initializeServices() {
   try {
     // Initialize database
-    db = new DatabaseService()
+    db = new DatabaseService(path.join(app.getPath('userData'), 'file-search.db'))
     await db.initialize()
 
-    // Initialize indexer
-    indexer = new FileIndexer(db)
+    // Initialize search workers; they open the database read-only once migrated
+    searchPool = new SearchWorkerPool(path.join(__dirname, 'search-worker.js'), db.getPath())
+
+    // Initialize indexer; it scans on worker threads while indexing
+    indexer = new FileIndexer(db, path.join(__dirname, 'scan-worker.js'))
+    // A run interrupted last time is offered for resuming through its progress
+    await indexer.loadCheckpoint().catch(error => {
+      console.warn('Failed to read indexing checkpoint:', error)
+    })
 
     // Initialize file watcher
     fileWatcher = new FileWatcher(db)
 
+    // Initialize saved searches, counted on the search workers
+    savedSearches = new SavedSearchService(db, searchPool, fileWatcher, indexer)
+    savedSearches.on('updated', (searches: SavedSearch[]) => {
+      pinnedSearches = searches.filter(search => search.pinned)
+      tray?.setContextMenu(buildTrayMenu())
+    })
+    savedSearches.refreshCounts().catch(error => {
+      console.warn('Failed to count saved searches:', error)
+    })
+
     // Setup IPC handlers
-    ipcHandlers = new IpcHandlers(db, indexer, fileWatcher)
+    ipcHandlers = new IpcHandlers(db, indexer, fileWatcher, searchPool, savedSearches)
     // IPC handlers are automatically registered in the constructor
 
     console.log('Services initialized successfully')
@@ -232,6 +269,12 @@ app.on('window-all-closed', async () => {
     if (fileWatcher) {
       await fileWatcher.stopWatching()
     }
+    if (savedSearches) {
+      savedSearches.stop()
+    }
+    if (searchPool) {
+      await searchPool.close()
+    }
     if (db) {
       await db.close()
     }
@@ -269,6 +312,15 @@ ipcMain.handle('window-is-maximized', () => {
   return win?.isMaximized() || false
 })
 
+// Database status is served from here rather than IpcHandlers so the renderer
+// can still learn about a failed migration when services never came up
+ipcMain.handle('get-database-status', () => {
+  if (!db) {
+    return { success: false, error: 'Database service not created' }
+  }
+  return { success: true, data: db.getStatus() }
+})
+
 ipcMain.handle('app-quit', () => {
   isQuitting = true
   app.quit()
@@ -1,5 +1,5 @@
 import { ipcRenderer, contextBridge } from 'electron'
-import { IpcSearchRequest, IpcIndexRequest, IpcResponse } from '../src/types'
+import { IpcSearchRequest, IpcIndexRequest, IpcResponse, SearchChunk, SavedSearch, SavedSearchInput, SearchHistory, SearchHistoryRecord, SuggestionRequest } from '../src/types'
 
 // --------- Expose File Search API to the Renderer process ---------
 contextBridge.exposeInMainWorld('fileSearchAPI', {
@@ -7,10 +7,51 @@ contextBridge.exposeInMainWorld('fileSearchAPI', {
   searchFiles: (request: IpcSearchRequest): Promise<IpcResponse> =>
     ipcRenderer.invoke('search-files', request),
 
+  searchStream: (request: IpcSearchRequest): Promise<IpcResponse> =>
+    ipcRenderer.invoke('search-stream', request),
+
+  cancelSearch: (requestId: string): Promise<IpcResponse> =>
+    ipcRenderer.invoke('cancel-search', requestId),
+
+  // Saved searches
+  getSavedSearches: (): Promise<IpcResponse> =>
+    ipcRenderer.invoke('get-saved-searches'),
+
+  createSavedSearch: (input: SavedSearchInput): Promise<IpcResponse> =>
+    ipcRenderer.invoke('create-saved-search', input),
+
+  updateSavedSearch: (id: number, changes: Partial<SavedSearchInput>): Promise<IpcResponse> =>
+    ipcRenderer.invoke('update-saved-search', id, changes),
+
+  deleteSavedSearch: (id: number): Promise<IpcResponse> =>
+    ipcRenderer.invoke('delete-saved-search', id),
+
+  // Search history
+  getSearchHistory: (): Promise<IpcResponse> =>
+    ipcRenderer.invoke('get-search-history'),
+
+  recordSearch: (record: SearchHistoryRecord): Promise<IpcResponse> =>
+    ipcRenderer.invoke('record-search', record),
+
+  recordSearchClick: (id: number, filePath: string): Promise<IpcResponse> =>
+    ipcRenderer.invoke('record-search-click', id, filePath),
+
+  removeSearchHistory: (query: string): Promise<IpcResponse> =>
+    ipcRenderer.invoke('remove-search-history', query),
+
+  clearSearchHistory: (): Promise<IpcResponse> =>
+    ipcRenderer.invoke('clear-search-history'),
+
+  getSuggestions: (request: SuggestionRequest): Promise<IpcResponse> =>
+    ipcRenderer.invoke('get-suggestions', request),
+
   // Indexing operations
   startIndexing: (request: IpcIndexRequest): Promise<IpcResponse> =>
     ipcRenderer.invoke('start-indexing', request),
 
+  resumeIndexing: (): Promise<IpcResponse> =>
+    ipcRenderer.invoke('resume-indexing'),
+
   stopIndexing: (): Promise<IpcResponse> =>
     ipcRenderer.invoke('stop-indexing'),
 
@@ -20,6 +61,9 @@ contextBridge.exposeInMainWorld('fileSearchAPI', {
   getFileCount: (): Promise<IpcResponse> =>
     ipcRenderer.invoke('get-file-count'),
 
+  getDatabaseStatus: (): Promise<IpcResponse> =>
+    ipcRenderer.invoke('get-database-status'),
+
   // File operations
   openFile: (filePath: string): Promise<IpcResponse> =>
     ipcRenderer.invoke('open-file', filePath),
@@ -27,6 +71,16 @@ contextBridge.exposeInMainWorld('fileSearchAPI', {
   openFileLocation: (filePath: string): Promise<IpcResponse> =>
     ipcRenderer.invoke('open-file-location', filePath),
 
+  // Frecency ranking
+  getUsageSettings: (): Promise<IpcResponse> =>
+    ipcRenderer.invoke('get-usage-settings'),
+
+  setUsageLearning: (enabled: boolean): Promise<IpcResponse> =>
+    ipcRenderer.invoke('set-usage-learning', enabled),
+
+  clearUsageData: (): Promise<IpcResponse> =>
+    ipcRenderer.invoke('clear-usage-data'),
+
   // System operations
   getSystemDrives: (): Promise<IpcResponse> =>
     ipcRenderer.invoke('get-system-drives'),
@@ -36,6 +90,32 @@ contextBridge.exposeInMainWorld('fileSearchAPI', {
     ipcRenderer.on('indexing-progress', (_, progress) => callback(progress))
   },
 
+  onSearchChunk: (callback: (chunk: SearchChunk) => void) => {
+    const listener = (_: Electron.IpcRendererEvent, chunk: SearchChunk) => callback(chunk)
+    ipcRenderer.on('search-chunk', listener)
+    return () => {
+      ipcRenderer.removeListener('search-chunk', listener)
+    }
+  },
+
+  // Several components follow saved searches and history, so each gets its
+  // own unsubscribe rather than removeAllListeners dropping everyone's
+  onSavedSearchesUpdated: (callback: (searches: SavedSearch[]) => void) => {
+    const listener = (_: Electron.IpcRendererEvent, searches: SavedSearch[]) => callback(searches)
+    ipcRenderer.on('saved-searches-updated', listener)
+    return () => {
+      ipcRenderer.removeListener('saved-searches-updated', listener)
+    }
+  },
+
+  onSearchHistoryUpdated: (callback: (history: SearchHistory) => void) => {
+    const listener = (_: Electron.IpcRendererEvent, history: SearchHistory) => callback(history)
+    ipcRenderer.on('search-history-updated', listener)
+    return () => {
+      ipcRenderer.removeListener('search-history-updated', listener)
+    }
+  },
+
   onIndexingComplete: (callback: () => void) => {
     ipcRenderer.on('indexing-complete', () => callback())
   },
@@ -86,6 +166,10 @@ contextBridge.exposeInMainWorld('windowAPI', {
 
   onShowTrayNotification: (callback: () => void) => {
     ipcRenderer.on('show-tray-notification', () => callback())
+  },
+
+  onRunSavedSearch: (callback: (search: SavedSearch) => void) => {
+    ipcRenderer.on('run-saved-search', (_, search) => callback(search))
   }
 })
 
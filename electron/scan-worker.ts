@@ -0,0 +1,25 @@
+import { parentPort, workerData } from 'node:worker_threads'
+import { DatabaseService } from './services/database'
+import { DirectoryScanner } from './services/directory-scanner'
+import { ScanWorkerData, ScanWorkerMessage, ScanWorkerReply } from './services/scan-pool'
+
+// Entry point of a ScanWorkerPool thread: lists one directory at a time and
+// posts back how it differs from the index, read over a read-only connection.
+
+const { dbPath } = workerData as ScanWorkerData
+const db = new DatabaseService(dbPath, { readonly: true })
+const ready = db.initialize()
+const scanner = new DirectoryScanner(db)
+
+parentPort?.on('message', async ({ id, task }: ScanWorkerMessage) => {
+  let reply: ScanWorkerReply
+
+  try {
+    await ready
+    reply = { id, result: await scanner.scan(task) }
+  } catch (error) {
+    reply = { id, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+
+  parentPort?.postMessage(reply)
+})
@@ -0,0 +1,47 @@
+import { parentPort, workerData } from 'node:worker_threads'
+import { DatabaseService } from './services/database'
+import { SearchService } from './services/search'
+import { SearchQueryError } from './services/query-compiler'
+import { SearchWorkerData, SearchWorkerMessage, SearchWorkerReply } from './services/search-pool'
+import { SearchResult } from '../src/types'
+
+// Entry point of a SearchWorkerPool thread: runs one search at a time against
+// a read-only connection and posts the result back, streamed searches as
+// chunks first.
+
+const { dbPath } = workerData as SearchWorkerData
+const db = new DatabaseService(dbPath, { readonly: true })
+const ready = db.initialize()
+const searchService = new SearchService(db)
+
+parentPort?.on('message', async ({ request, mode }: SearchWorkerMessage) => {
+  const { requestId, query, filters, limit = 100, offset = 0, sortBy, sortDirection, includeFacets, groupBy } = request
+  const options = { sort: { sortBy, sortDirection }, includeFacets, groupBy }
+  let reply: SearchWorkerReply
+
+  try {
+    await ready
+
+    let seq = 0
+    let result: SearchResult
+    if (mode === 'stream') {
+      result = await searchService.streamSearch(query, filters, limit, offset, options, items => {
+        const chunk: SearchWorkerReply = { requestId, seq: seq++, items }
+        parentPort?.postMessage(chunk)
+      })
+    } else if (mode === 'count') {
+      result = await searchService.count(query, filters)
+    } else {
+      result = await searchService.search(query, filters, limit, offset, options)
+    }
+    reply = { requestId, result }
+  } catch (error) {
+    reply = {
+      requestId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      queryError: error instanceof SearchQueryError
+    }
+  }
+
+  parentPort?.postMessage(reply)
+})
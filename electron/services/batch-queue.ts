@@ -0,0 +1,88 @@
+import { EventEmitter } from 'events';
+
+export interface BatchQueueOptions {
+  batchSize: number; // Items per write
+  capacity: number; // Items queued or being written before push() waits
+  flushIntervalMs: number; // Longest an item waits for its batch to fill
+}
+
+/**
+ * Bounded queue between a producer and a batched writer. Items are written
+ * `batchSize` at a time, one batch after another, and a partial batch is
+ * written once it has waited `flushIntervalMs`. push() resolves only while
+ * fewer than `capacity` items are waiting, so a producer that awaits it is
+ * held back to the writer's pace.
+ *
+ * Emits 'written' with each batch once the write resolves. A batch whose write
+ * throws is logged and dropped; later batches are still written.
+ */
+export class BatchQueue<T> extends EventEmitter {
+  private write: (batch: T[]) => Promise<void>;
+  private options: BatchQueueOptions;
+  private items: T[] = [];
+  private pending = 0; // Queued plus being written
+  private writing: Promise<void> = Promise.resolve();
+  private flushTimer: NodeJS.Timeout | null = null;
+  private blockedProducers: Array<() => void> = [];
+
+  constructor(write: (batch: T[]) => Promise<void>, options: BatchQueueOptions) {
+    super();
+    this.write = write;
+    this.options = options;
+  }
+
+  async push(item: T): Promise<void> {
+    this.items.push(item);
+    this.pending++;
+
+    if (this.items.length >= this.options.batchSize) {
+      this.flush();
+    } else if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), this.options.flushIntervalMs);
+    }
+
+    if (this.pending >= this.options.capacity) {
+      await new Promise<void>(resolve => this.blockedProducers.push(resolve));
+    }
+  }
+
+  /** Writes everything queued and resolves once the last write has finished. */
+  async close(): Promise<void> {
+    while (this.items.length > 0) {
+      this.flush();
+    }
+    await this.writing;
+  }
+
+  private flush(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (this.items.length === 0) return;
+
+    const batch = this.items.splice(0, this.options.batchSize);
+    this.writing = this.writing.then(() => this.writeBatch(batch));
+
+    if (this.items.length > 0) {
+      this.flushTimer = setTimeout(() => this.flush(), this.options.flushIntervalMs);
+    }
+  }
+
+  private async writeBatch(batch: T[]): Promise<void> {
+    try {
+      await this.write(batch);
+      this.emit('written', batch);
+    } catch (error) {
+      console.error(`Failed to write a batch of ${batch.length}:`, error);
+    } finally {
+      this.pending -= batch.length;
+      while (this.pending < this.options.capacity && this.blockedProducers.length > 0) {
+        this.blockedProducers.shift()?.();
+      }
+    }
+
+    // Let IPC and watcher events in between batches
+    await new Promise(resolve => setImmediate(resolve));
+  }
+}
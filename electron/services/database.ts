@@ -1,91 +1,326 @@
 import { createRequire } from 'node:module';
-import path from 'path';
-import { app } from 'electron';
-import { FileItem, FileType } from '../../src/types';
+import { FileItem, FileType, DatabaseStatus, SearchFilters, FileUsageKind, SearchSort, SortField, SortDirection, SearchFacets, FacetCount, DateFacetCount, GroupField, SearchGroup, SavedSearch, SavedSearchInput, SearchHistory, SearchHistoryItem, SearchHistoryRecord, Suggestion, SuggestionRequest } from '../../src/types';
+import { MIGRATIONS, LATEST_SCHEMA_VERSION, MigrationError } from './migrations';
+import { QueryBuilder, WhereClause } from './query-builder';
+import { compileQuery, compileTerm, splitRankedTerms, toFtsPrefixMatch, toTrigramMatch, resolveDatePeriod, compileDirectory, SearchQueryError } from './query-compiler';
+import { parseQuery, defaultSortDirection } from '../../src/lib/query-parser';
+import { toTrigrams } from './fuzzy-matcher';
+import { getInitials, isAcronymCandidate } from '../../src/lib/word-match';
 
 const require = createRequire(import.meta.url);
 const Database = require('better-sqlite3');
 
+// Longest a single search may spend evaluating REGEXP before it is abandoned
+const REGEX_TIMEOUT_MS = 2000;
+
+// Frecency: each use adds its weight, and the total halves every two weeks
+const USAGE_HALF_LIFE_MS = 14 * 24 * 60 * 60 * 1000;
+const USAGE_WEIGHTS: Record<FileUsageKind, number> = { open: 1, reveal: 0.5 };
+
+// Relevance tiers by how a name matches the words searched for. Frecency lifts
+// a file by up to MAX_FRECENCY_BOOST tiers, logarithmically, so a handful of
+// recent opens beats a somewhat better name match without burying better
+// matches under a file that was opened a hundred times.
+const NAME_TIERS = { exact: 0, prefix: 1, initials: 1.5, other: 2 };
+const MAX_FRECENCY_BOOST = 2;
+
+// Rank for initials hits; bm25() scores text matches below zero, so these sort first
+const ACRONYM_HIT_RANK = -1000;
+
+// ORDER BY columns for explicit sorts, each led by an indexed column. rowid,
+// which every index carries, breaks ties so pages never overlap.
+const SORT_COLUMNS: Record<Exclude<SortField, 'relevance'>, string[]> = {
+  name: ['files.name COLLATE NOCASE'],
+  size: ['files.size'],
+  dateModified: ['files.dateModified'],
+  dateCreated: ['files.dateCreated'],
+  dateAccessed: ['files.dateAccessed'],
+  path: ['files.parentPath COLLATE NOCASE', 'files.name COLLATE NOCASE'],
+  type: ['files.type', 'files.extension', 'files.name COLLATE NOCASE']
+};
+
+// Group keys as columns, and the ORDER BY that keeps each group's rows together.
+// Directories differing only in case sort side by side but are separate groups.
+const GROUP_COLUMNS: Record<GroupField, { key: string; order: string }> = {
+  folder: { key: 'files.parentPath', order: 'files.parentPath COLLATE NOCASE, files.parentPath' },
+  type: { key: 'files.type', order: 'files.type' }
+};
+
+// Searches run while a query is still being typed ("rep", "repo", "report")
+// within this long of each other are one entry in the history
+const HISTORY_TYPING_WINDOW_MS = 5000;
+
+// Oldest search history rows are dropped past this many
+const MAX_HISTORY_ROWS = 10000;
+
+// Name suggestions come from this many FTS hits, so a short prefix that
+// matches half the index stays cheap
+const SUGGESTION_CANDIDATES = 500;
+
+// Sorts after every string, as the upper bound of a prefix range
+const MAX_CHAR = String.fromCodePoint(0x10ffff);
+
+// Most values listed per facet
+const FACET_LIMIT = 10;
+
+// Periods of the modified facet, each containing the one before
+const MODIFIED_FACET_PERIODS = [
+  { value: 'today', label: 'Today' },
+  { value: 'thisweek', label: 'This week' },
+  { value: 'thismonth', label: 'This month' },
+  { value: 'thisyear', label: 'This year' }
+];
+
+interface FileRow {
+  id: string;
+  name: string;
+  path: string;
+  fullPath: string;
+  extension: string;
+  size: number;
+  dateModified: number;
+  dateCreated: number;
+  dateAccessed: number | null;
+  isDirectory: number;
+  type: string;
+  entryCount: number | null;
+}
+
+interface SavedSearchRow {
+  id: number;
+  name: string;
+  query: string;
+  filters: string;
+  sortBy: SortField | null;
+  sortDirection: SortDirection | null;
+  pinned: number;
+  createdAt: number;
+}
+
+interface SearchHistoryRow {
+  query: string;
+  latestId: number;
+  lastUsed: number;
+  timesSearched: number;
+  resultCount: number;
+  executionTime: number;
+  clicks: number;
+}
+
+// What an incremental scan compares a file on disk against
+export interface IndexedFileState {
+  id: string;
+  fullPath: string;
+  size: number;
+  dateModified: number;
+  entryCount: number | null;
+}
+
+// Where one root of an interrupted indexing run got to
+export interface IndexCheckpointRoot {
+  rootPath: string;
+  status: 'pending' | 'scanning' | 'complete';
+  pendingDirectories: string[]; // Not yet walked, subdirectories and all
+  listedDirectories: string[]; // Listed, but with changes not yet written; their subdirectories are pending or done
+}
+
+export interface IndexCheckpoint {
+  roots: IndexCheckpointRoot[]; // In the order they were requested
+  excludePaths: string[];
+  concurrency: number | null;
+  filesProcessed: number;
+  startedAt: Date;
+  updatedAt: Date;
+}
+
+interface IndexCheckpointRow {
+  excludePaths: string;
+  concurrency: number | null;
+  filesProcessed: number;
+  startedAt: number;
+  updatedAt: number;
+}
+
+interface IndexCheckpointRootRow {
+  rootPath: string;
+  status: IndexCheckpointRoot['status'];
+  pendingDirectories: string;
+  listedDirectories: string;
+}
+
+export interface DatabaseOptions {
+  // Search workers open the file read-only and leave migrations to the main process
+  readonly?: boolean;
+}
+
+export interface FileSearchOptions {
+  filters?: SearchFilters;
+  sort?: SearchSort; // Relevance when omitted
+  groupBy?: GroupField; // Orders by group first, then by sort within each group
+  frecency?: boolean; // Lift files the user opens often when ordering by relevance
+}
+
+interface SearchPlan {
+  from: string;
+  fromParams: unknown[];
+  where: WhereClause;
+  orderBy: string;
+  orderParams: unknown[];
+}
+
 export class DatabaseService {
   private db: any = null;
   private dbPath: string;
+  private initializationError: Error | null = null;
+  private regexCache = new Map<string, RegExp>();
+  private regexDeadline = Infinity;
 
-  constructor() {
-    const userDataPath = app.getPath('userData');
-    this.dbPath = path.join(userDataPath, 'file-search.db');
+  private isReadonly: boolean;
+
+  constructor(dbPath: string, options: DatabaseOptions = {}) {
+    this.dbPath = dbPath;
+    this.isReadonly = options.readonly ?? false;
   }
 
   async initialize(): Promise<void> {
     try {
+      if (this.isReadonly) {
+        this.db = new Database(this.dbPath, { readonly: true, fileMustExist: true });
+        this.registerFunctions();
+        return;
+      }
+
       this.db = new Database(this.dbPath);
       console.log('Database connected successfully');
 
-      // Enable WAL mode for better performance
+      // Enable WAL mode for better performance; it also lets search workers
+      // read while the indexer writes
       this.db.pragma('journal_mode = WAL');
 
-      await this.createTables();
+      this.registerFunctions();
+      await this.runMigrations();
     } catch (error) {
       console.error('Database initialization error:', error);
+      this.initializationError = error instanceof Error ? error : new Error(String(error));
       throw error;
     }
   }
 
-  private async createTables(): Promise<void> {
+  /**
+   * Brings the schema up to LATEST_SCHEMA_VERSION, tracked in `PRAGMA user_version`.
+   * Destructive steps get a backup copy of the database first; a failed step
+   * throws a MigrationError carrying the backup path.
+   */
+  private async runMigrations(): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
 
-    const createFilesTable = `
-      CREATE TABLE IF NOT EXISTS files (
-        id TEXT PRIMARY KEY,
-        name TEXT NOT NULL,
-        path TEXT NOT NULL,
-        fullPath TEXT NOT NULL UNIQUE,
-        extension TEXT,
-        size INTEGER,
-        dateModified INTEGER,
-        dateCreated INTEGER,
-        isDirectory INTEGER,
-        type TEXT
-      )
-    `;
+    const currentVersion = this.db.pragma('user_version', { simple: true }) as number;
 
-    const createFtsTable = `
-      CREATE VIRTUAL TABLE IF NOT EXISTS files_fts USING fts5(
-        name,
-        path,
-        fullPath,
-        content='files',
-        content_rowid='rowid'
-      )
-    `;
+    if (currentVersion > LATEST_SCHEMA_VERSION) {
+      console.warn(`Database schema v${currentVersion} is newer than this app supports (v${LATEST_SCHEMA_VERSION})`);
+      return;
+    }
 
-    const createIndexes = [
-      'CREATE INDEX IF NOT EXISTS idx_files_path ON files(path)',
-      'CREATE INDEX IF NOT EXISTS idx_files_extension ON files(extension)',
-      'CREATE INDEX IF NOT EXISTS idx_files_size ON files(size)',
-      'CREATE INDEX IF NOT EXISTS idx_files_date_modified ON files(dateModified)',
-      'CREATE INDEX IF NOT EXISTS idx_files_type ON files(type)'
-    ];
+    const pending = MIGRATIONS
+      .filter(migration => migration.version > currentVersion)
+      .sort((a, b) => a.version - b.version);
 
-    try {
-      this.db.exec(createFilesTable);
-      this.db.exec(createFtsTable);
+    for (const migration of pending) {
+      let backupPath: string | undefined;
+
+      try {
+        if (migration.destructive) {
+          backupPath = `${this.dbPath}.v${this.getSchemaVersion()}-${Date.now()}.bak`;
+          await this.db.backup(backupPath);
+          console.log(`Backed up database to ${backupPath}`);
+        }
+
+        this.db.transaction(() => {
+          migration.up(this.db);
+          this.db.pragma(`user_version = ${migration.version}`);
+        })();
 
-      for (const indexSql of createIndexes) {
-        this.db.exec(indexSql);
+        console.log(`Applied migration ${migration.version}: ${migration.description}`);
+      } catch (error) {
+        throw new MigrationError(migration, error, backupPath);
       }
-    } catch (error) {
-      console.error('Error creating tables:', error);
-      throw error;
     }
   }
 
+  /**
+   * SQLite has no built-in REGEXP; `x REGEXP y` calls regexp(y, x). Matching is
+   * case-insensitive like the rest of search. SQLite cannot interrupt a query
+   * from outside, so the function itself aborts the statement once the
+   * deadline set by `withRegexDeadline` has passed.
+   */
+  private registerFunctions(): void {
+    this.db.function('regexp', { deterministic: true }, (pattern: string, value: string | null) => {
+      if (Date.now() > this.regexDeadline) {
+        throw new SearchQueryError('Regular expression search timed out; try a more specific pattern');
+      }
+      if (value === null) return 0;
+
+      let regex = this.regexCache.get(pattern);
+      if (!regex) {
+        if (this.regexCache.size >= 50) this.regexCache.clear();
+        regex = new RegExp(pattern, 'i');
+        this.regexCache.set(pattern, regex);
+      }
+      return regex.test(value) ? 1 : 0;
+    });
+  }
+
+  private withRegexDeadline<T>(run: () => T): T {
+    this.regexDeadline = Date.now() + REGEX_TIMEOUT_MS;
+    try {
+      return run();
+    } finally {
+      this.regexDeadline = Infinity;
+    }
+  }
+
+  getPath(): string {
+    return this.dbPath;
+  }
+
+  getSchemaVersion(): number {
+    if (!this.db) return 0;
+    return this.db.pragma('user_version', { simple: true }) as number;
+  }
+
+  getStatus(): DatabaseStatus {
+    const error = this.initializationError;
+    return {
+      schemaVersion: this.getSchemaVersion(),
+      latestSchemaVersion: LATEST_SCHEMA_VERSION,
+      error: error?.message,
+      backupPath: error instanceof MigrationError ? error.backupPath : undefined
+    };
+  }
+
   async insertFile(file: FileItem): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
 
+    // Upsert on fullPath rather than INSERT OR REPLACE so an existing row keeps
+    // its rowid (and id); the FTS triggers then see a plain UPDATE.
     const sql = `
-      INSERT OR REPLACE INTO files
-      (id, name, path, fullPath, extension, size, dateModified, dateCreated, isDirectory, type)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO files
+      (id, name, path, fullPath, extension, size, dateModified, dateCreated, dateAccessed, isDirectory, type, initials, entryCount)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(fullPath) DO UPDATE SET
+        name = excluded.name,
+        path = excluded.path,
+        extension = excluded.extension,
+        -- The watcher knows no directory totals, so it leaves the indexer's in place
+        size = CASE WHEN excluded.isDirectory = 1 AND excluded.entryCount IS NULL AND files.entryCount IS NOT NULL
+          THEN files.size ELSE excluded.size END,
+        dateModified = excluded.dateModified,
+        dateCreated = excluded.dateCreated,
+        dateAccessed = excluded.dateAccessed,
+        isDirectory = excluded.isDirectory,
+        type = excluded.type,
+        initials = excluded.initials,
+        entryCount = CASE WHEN excluded.isDirectory = 1 THEN COALESCE(excluded.entryCount, files.entryCount) END
     `;
 
     const params = [
@@ -97,18 +332,16 @@ export class DatabaseService {
       file.size,
       file.dateModified instanceof Date ? file.dateModified.getTime() : Date.now(),
       file.dateCreated instanceof Date ? file.dateCreated.getTime() : Date.now(),
+      file.dateAccessed instanceof Date ? file.dateAccessed.getTime() : null,
       file.isDirectory ? 1 : 0,
-      file.type
+      file.type,
+      getInitials(file.name),
+      file.entryCount ?? null
     ];
 
     try {
       const stmt = this.db.prepare(sql);
-      const result = stmt.run(params);
-
-      // Update FTS table
-      const ftsSql = `INSERT OR REPLACE INTO files_fts(rowid, name, path, fullPath) VALUES (?, ?, ?, ?)`;
-      const ftsStmt = this.db.prepare(ftsSql);
-      ftsStmt.run([result.lastInsertRowid || 1, file.name, file.path, file.fullPath]);
+      stmt.run(params);
     } catch (error) {
       console.error('Error inserting file:', error);
       throw error;
@@ -122,16 +355,27 @@ export class DatabaseService {
     console.log(`Inserting ${files.length} files into database...`);
 
     const sql = `
-      INSERT OR REPLACE INTO files
-      (id, name, path, fullPath, extension, size, dateModified, dateCreated, isDirectory, type)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO files
+      (id, name, path, fullPath, extension, size, dateModified, dateCreated, dateAccessed, isDirectory, type, initials, entryCount)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(fullPath) DO UPDATE SET
+        name = excluded.name,
+        path = excluded.path,
+        extension = excluded.extension,
+        -- The watcher knows no directory totals, so it leaves the indexer's in place
+        size = CASE WHEN excluded.isDirectory = 1 AND excluded.entryCount IS NULL AND files.entryCount IS NOT NULL
+          THEN files.size ELSE excluded.size END,
+        dateModified = excluded.dateModified,
+        dateCreated = excluded.dateCreated,
+        dateAccessed = excluded.dateAccessed,
+        isDirectory = excluded.isDirectory,
+        type = excluded.type,
+        initials = excluded.initials,
+        entryCount = CASE WHEN excluded.isDirectory = 1 THEN COALESCE(excluded.entryCount, files.entryCount) END
     `;
 
-    const ftsSql = `INSERT OR REPLACE INTO files_fts(rowid, name, path, fullPath) VALUES (?, ?, ?, ?)`;
-
     try {
       const stmt = this.db.prepare(sql);
-      const ftsStmt = this.db.prepare(ftsSql);
 
       const transaction = this.db.transaction((files: FileItem[]) => {
         for (let i = 0; i < files.length; i++) {
@@ -145,12 +389,14 @@ export class DatabaseService {
             file.size || 0,
             file.dateModified instanceof Date ? file.dateModified.getTime() : Date.now(),
             file.dateCreated instanceof Date ? file.dateCreated.getTime() : Date.now(),
+            file.dateAccessed instanceof Date ? file.dateAccessed.getTime() : null,
             file.isDirectory ? 1 : 0,
-            file.type || 'unknown'
+            file.type || 'unknown',
+            getInitials(file.name),
+            file.entryCount ?? null
           ];
 
-          const result = stmt.run(params);
-          ftsStmt.run([result.lastInsertRowid || (i + 1), file.name, file.path, file.fullPath]);
+          stmt.run(params);
         }
       });
 
@@ -162,189 +408,410 @@ export class DatabaseService {
     }
   }
 
-  async searchFiles(query: string, limit: number = 100, offset: number = 0): Promise<FileItem[]> {
+  async searchFiles(
+    query: string,
+    limit: number = 100,
+    offset: number = 0,
+    options: FileSearchOptions = {}
+  ): Promise<FileItem[]> {
     if (!this.db) throw new Error('Database not initialized');
 
-    // Parse search operators
-    const searchTerms = this.parseSearchQuery(query);
+    try {
+      const plan = this.planSearch(query, options);
+      const rows: FileRow[] = this.withRegexDeadline(() =>
+        this.db.prepare(this.selectSql(plan)).all([...plan.fromParams, ...plan.where.params, ...plan.orderParams, limit, offset])
+      );
+      return rows.map(row => this.mapRow(row));
+    } catch (error) {
+      console.error('Search error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * The rows `searchFiles` returns, in the same order, yielded as SQLite
+   * produces them so callers can pass the first ones on before the rest are
+   * read. The REGEXP deadline covers the whole iteration.
+   */
+  *iterateFiles(
+    query: string,
+    limit: number = 100,
+    offset: number = 0,
+    options: FileSearchOptions = {}
+  ): Generator<FileItem> {
+    if (!this.db) throw new Error('Database not initialized');
 
-    let sql: string;
-    let params: unknown[];
-    const whereConditions: string[] = [];
-    const sqlParams: unknown[] = [];
+    try {
+      const plan = this.planSearch(query, options);
+      const statement = this.db.prepare(this.selectSql(plan));
 
-    // Handle different search operators
-    if (searchTerms.type) {
-      whereConditions.push('type = ?');
-      sqlParams.push(searchTerms.type);
+      this.regexDeadline = Date.now() + REGEX_TIMEOUT_MS;
+      for (const row of statement.iterate([...plan.fromParams, ...plan.where.params, ...plan.orderParams, limit, offset])) {
+        yield this.mapRow(row as FileRow);
+      }
+    } catch (error) {
+      console.error('Search error:', error);
+      throw error;
+    } finally {
+      this.regexDeadline = Infinity;
     }
+  }
 
-    if (searchTerms.extension) {
-      whereConditions.push('extension = ?');
-      sqlParams.push(searchTerms.extension.startsWith('.') ? searchTerms.extension : '.' + searchTerms.extension);
-    }
+  private selectSql(plan: SearchPlan): string {
+    return `
+      SELECT files.* FROM ${plan.from}
+      ${plan.where.clause}
+      ORDER BY ${plan.orderBy}
+      LIMIT ? OFFSET ?
+    `;
+  }
 
-    if (searchTerms.size) {
-      const sizeCondition = this.parseSizeQuery(searchTerms.size);
-      if (sizeCondition) {
-        whereConditions.push(sizeCondition.condition);
-        sqlParams.push(...sizeCondition.params);
-      }
+  /**
+   * Number of rows `searchFiles` would return for the same query and options
+   * without LIMIT/OFFSET, for result totals and pagination.
+   */
+  async countFiles(query: string, options: FileSearchOptions = {}): Promise<number> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    try {
+      const plan = this.planSearch(query, options);
+      const row = this.withRegexDeadline(() =>
+        this.db
+          .prepare(`SELECT COUNT(*) AS count FROM ${plan.from} ${plan.where.clause}`)
+          .get([...plan.fromParams, ...plan.where.params]) as { count: number }
+      );
+      return row.count;
+    } catch (error) {
+      console.error('Count error:', error);
+      throw error;
     }
+  }
+
+  /**
+   * Size and number of the rows `countFiles` would see in each of the given
+   * groups, so a group split across pages still shows its full totals.
+   */
+  async getGroups(query: string, groupBy: GroupField, keys: string[], options: FileSearchOptions = {}): Promise<SearchGroup[]> {
+    if (!this.db) throw new Error('Database not initialized');
+    if (keys.length === 0) return [];
 
-    // Always use LIKE search for reliability - it's simpler and more predictable
-    if (searchTerms.text) {
-      const likeQuery = `%${searchTerms.text}%`;
-      whereConditions.push('(name LIKE ? OR path LIKE ? OR fullPath LIKE ?)');
-      sqlParams.push(likeQuery, likeQuery, likeQuery);
-    }
-
-    if (whereConditions.length > 0) {
-      sql = `
-        SELECT * FROM files
-        WHERE ${whereConditions.join(' AND ')}
-        ORDER BY
-          CASE WHEN isDirectory = 1 THEN 0 ELSE 1 END,
-          name COLLATE NOCASE
-        LIMIT ? OFFSET ?
-      `;
-      params = [...sqlParams, limit, offset];
-    } else {
-      // No search terms, return all files
-      sql = `
-        SELECT * FROM files
-        ORDER BY
-          CASE WHEN isDirectory = 1 THEN 0 ELSE 1 END,
-          name COLLATE NOCASE
-        LIMIT ? OFFSET ?
-      `;
-      params = [limit, offset];
+    try {
+      const plan = this.planSearch(query, { filters: options.filters });
+      const column = GROUP_COLUMNS[groupBy].key;
+      const rows: SearchGroup[] = this.withRegexDeadline(() =>
+        this.db.prepare(`
+          SELECT ${column} AS key, COUNT(*) AS count,
+            COALESCE(SUM(files.size) FILTER (WHERE files.isDirectory = 0), 0) AS size FROM ${plan.from}
+          ${plan.where.clause}
+          GROUP BY ${column}
+          HAVING ${column} IN (${keys.map(() => '?').join(', ')})
+        `).all([...plan.fromParams, ...plan.where.params, ...keys])
+      );
+
+      // In the order the keys were given, which is the order of the results
+      const groups = new Map(rows.map(row => [row.key, row]));
+      return keys.flatMap(key => groups.get(key) ?? []);
+    } catch (error) {
+      console.error('Group error:', error);
+      throw error;
     }
+  }
+
+  /**
+   * Counts of the rows `countFiles` would see by type, extension, top-level
+   * folder and modification period. Each facet leaves out its own filter, so
+   * with .jpg chosen the .png count is still there to add.
+   */
+  async getFacets(query: string, options: FileSearchOptions = {}): Promise<SearchFacets> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const filters = options.filters ?? {};
 
     try {
-      const stmt = this.db.prepare(sql);
-      const rows = stmt.all(params);
-
-      const files = rows.map((row: any) => ({
-        id: row.id,
-        name: row.name,
-        path: row.path,
-        fullPath: row.fullPath,
-        extension: row.extension,
-        size: row.size,
-        dateModified: new Date(row.dateModified),
-        dateCreated: new Date(row.dateCreated),
-        isDirectory: row.isDirectory === 1,
-        type: row.type as FileType
+      return this.withRegexDeadline(() => ({
+        types: this.groupCounts(query, { ...filters, fileTypes: undefined }, 'files.type'),
+        extensions: this.groupCounts(query, { ...filters, extensions: undefined }, 'files.extension'),
+        folders: this.countTopLevelFolders(query, { ...filters, folders: undefined }),
+        modified: this.countModifiedPeriods(query, { ...filters, dateModifiedFrom: undefined, dateModifiedTo: undefined })
       }));
-
-      return files;
     } catch (error) {
-      console.error('Search error:', error);
+      console.error('Facet error:', error);
       throw error;
     }
   }
 
-  private parseSearchQuery(query: string): {
-    text?: string;
-    type?: string;
-    extension?: string;
-    size?: string;
-  } {
-    const terms: any = {};
-    const parts = query.split(/\s+/);
-    const textParts: string[] = [];
-
-    for (const part of parts) {
-      if (part.startsWith('type:')) {
-        const typeValue = part.substring(5).toLowerCase();
-        // Map common type aliases to our FileType enum values
-        switch (typeValue) {
-          case 'image':
-          case 'img':
-          case 'picture':
-            terms.type = 'IMAGE';
-            break;
-          case 'video':
-          case 'movie':
-            terms.type = 'VIDEO';
-            break;
-          case 'audio':
-          case 'music':
-          case 'sound':
-            terms.type = 'AUDIO';
-            break;
-          case 'document':
-          case 'doc':
-          case 'text':
-            terms.type = 'DOCUMENT';
-            break;
-          case 'archive':
-          case 'zip':
-          case 'compressed':
-            terms.type = 'ARCHIVE';
-            break;
-          case 'folder':
-          case 'directory':
-          case 'dir':
-            terms.type = 'DIRECTORY';
-            break;
-          default:
-            terms.type = typeValue.toUpperCase();
-        }
-      } else if (part.startsWith('ext:')) {
-        terms.extension = part.substring(4);
-      } else if (part.startsWith('size:')) {
-        terms.size = part.substring(5);
-      } else {
-        textParts.push(part);
-      }
+  private groupCounts(query: string, filters: SearchFilters, column: string): FacetCount[] {
+    const plan = this.planSearch(query, { filters });
+    const rows: Array<{ value: string; count: number }> = this.db.prepare(`
+      SELECT ${column} AS value, COUNT(*) AS count FROM ${plan.from}
+      ${plan.where.clause}
+      GROUP BY ${column}
+      ORDER BY count DESC
+      LIMIT ?
+    `).all([...plan.fromParams, ...plan.where.params, FACET_LIMIT + 1]);
+
+    // Files without an extension cannot be selected by one
+    return rows
+      .filter(row => row.value)
+      .slice(0, FACET_LIMIT)
+      .map(row => ({ value: row.value, label: row.value, count: row.count }));
+  }
+
+  /**
+   * Folds per-directory counts into the first directory below each indexed
+   * location. `path` is the directory relative to that location, so cutting
+   * it off `parentPath` leaves the location itself.
+   */
+  private countTopLevelFolders(query: string, filters: SearchFilters): FacetCount[] {
+    const plan = this.planSearch(query, { filters });
+    const rows: Array<{ parentPath: string; path: string; count: number }> = this.db.prepare(`
+      SELECT files.parentPath AS parentPath, MIN(files.path) AS path, COUNT(*) AS count FROM ${plan.from}
+      ${plan.where.clause}
+      GROUP BY files.parentPath
+    `).all([...plan.fromParams, ...plan.where.params]);
+
+    const counts = new Map<string, number>();
+    for (const row of rows) {
+      if (row.path === '.') continue; // Directly in an indexed location
+      const topLevel = row.path.split(/[\\/]/)[0];
+      const folder = row.parentPath.slice(0, row.parentPath.length - row.path.length) + topLevel;
+      counts.set(folder, (counts.get(folder) ?? 0) + row.count);
     }
 
-    if (textParts.length > 0) {
-      terms.text = textParts.join(' ');
+    return Array.from(counts, ([folder, count]) => ({ value: folder, label: folder.split(/[\\/]/).pop() || folder, count }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, FACET_LIMIT);
+  }
+
+  private countModifiedPeriods(query: string, filters: SearchFilters): DateFacetCount[] {
+    const plan = this.planSearch(query, { filters });
+    const now = new Date();
+    const periods = MODIFIED_FACET_PERIODS.map(period => ({ ...period, from: resolveDatePeriod(period.value, now)!.from! }));
+    const startOfYear = periods[periods.length - 1].from;
+
+    const counts: number[] = this.db.prepare(`
+      SELECT ${periods.map(() => 'COUNT(*) FILTER (WHERE files.dateModified >= ?)').join(', ')},
+        COUNT(*) FILTER (WHERE files.dateModified < ?)
+      FROM ${plan.from}
+      ${plan.where.clause}
+    `).raw().get([...periods.map(period => period.from.getTime()), startOfYear.getTime(), ...plan.fromParams, ...plan.where.params]);
+
+    return [
+      ...periods.map((period, index) => ({ ...period, count: counts[index] })),
+      { value: 'older', label: 'Before this year', to: startOfYear, count: counts[periods.length] }
+    ];
+  }
+
+  /**
+   * Candidates for fuzzy matching: files whose name shares at least one
+   * trigram with the query's plain words, best overlap first by bm25. Words too
+   * short for trigrams, operators and filters apply exactly, as in searchFiles.
+   */
+  async findFuzzyCandidates(query: string, limit: number, options: FileSearchOptions = {}): Promise<FileItem[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const { terms, rest } = splitRankedTerms(parseQuery(query));
+    const trigrams = Array.from(new Set(terms.flatMap(toTrigrams)));
+    if (trigrams.length === 0) return [];
+
+    const builder = new QueryBuilder().whereFilters(options.filters);
+    const compiled = compileQuery(rest);
+    if (compiled) {
+      builder.where(compiled.sql, ...compiled.params);
+    }
+    for (const term of terms.filter(term => term.length < 3)) {
+      const condition = compileTerm(term);
+      builder.where(condition.sql, ...condition.params);
     }
+    builder.where('files_trigram MATCH ?', `name : (${trigrams.map(toTrigramMatch).join(' OR ')})`);
 
-    return terms;
+    try {
+      const where = builder.build();
+      const rows: FileRow[] = this.withRegexDeadline(() =>
+        this.db.prepare(`
+          SELECT files.* FROM files_trigram JOIN files ON files.rowid = files_trigram.rowid
+          ${where.clause}
+          ORDER BY bm25(files_trigram, 10.0, 1.0)
+          LIMIT ?
+        `).all([...where.params, limit])
+      );
+      return rows.map(row => this.mapRow(row));
+    } catch (error) {
+      console.error('Fuzzy search error:', error);
+      throw error;
+    }
   }
 
-  private parseSizeQuery(sizeQuery: string): { condition: string; params: any[] } | null {
-    const match = sizeQuery.match(/^([<>]=?)?(\d+(?:\.\d+)?)(kb|mb|gb|tb)?$/i);
-    if (!match) return null;
+  /**
+   * Resolves a query and its filters into the FROM source, WHERE clause and
+   * ordering shared by `searchFiles` and `countFiles`. Plain words that every
+   * result must contain are matched through an FTS join so results can be
+   * ranked with bm25(); the rest of the query is compiled to conditions.
+   */
+  private planSearch(query: string, options: FileSearchOptions): SearchPlan {
+    const { terms, rest } = splitRankedTerms(parseQuery(query));
+    const builder = new QueryBuilder().whereFilters(options.filters);
+    const directoriesFirst = 'CASE WHEN files.isDirectory = 1 THEN 0 ELSE 1 END';
+    const sortOrder = options.sort && options.sort.sortBy !== 'relevance' ? this.sortOrderBy(options.sort) : null;
+    const groupOrder = options.groupBy ? `${GROUP_COLUMNS[options.groupBy].order}, ` : '';
+    const usage = options.frecency && !sortOrder ? this.frecencyBoost() : null;
+    const usageJoin = usage ? ' LEFT JOIN file_usage ON file_usage.fullPath = files.fullPath' : '';
+
+    const compiled = compileQuery(rest);
+    if (compiled) {
+      builder.where(compiled.sql, ...compiled.params);
+    }
+
+    // bm25() returns lower values for better matches; column weights favour name
+    let ranked: { table: string; match: string; rank: string } | null = null;
+    const trigramTerms = terms.filter(term => toTrigramMatch(term) !== null);
+    const ftsTerms = terms.filter(term => toFtsPrefixMatch(term) !== null);
+
+    if (trigramTerms.length > 0) {
+      ranked = {
+        table: 'files_trigram',
+        match: trigramTerms.map(toTrigramMatch).join(' AND '),
+        rank: 'bm25(files_trigram, 10.0, 1.0)'
+      };
+    } else if (ftsTerms.length > 0) {
+      ranked = {
+        table: 'files_fts',
+        match: ftsTerms.map(toFtsPrefixMatch).join(' AND '),
+        rank: 'bm25(files_fts, 10.0, 2.0, 1.0)'
+      };
+    }
+
+    const rankedTerms = ranked?.table === 'files_trigram' ? trigramTerms : ftsTerms;
+    for (const term of terms.filter(term => !rankedTerms.includes(term))) {
+      const condition = compileTerm(term);
+      builder.where(condition.sql, ...condition.params);
+    }
+
+    if (!ranked) {
+      // Without words to rank by, the most used and then the newest come first
+      return {
+        from: 'files' + usageJoin,
+        fromParams: [],
+        where: builder.build(),
+        orderBy: groupOrder + (sortOrder ?? (usage
+          ? `${directoriesFirst}, ${usage.sql} DESC, files.dateModified DESC, files.name COLLATE NOCASE`
+          : `${directoriesFirst}, files.dateModified DESC, files.name COLLATE NOCASE`)),
+        orderParams: usage?.params ?? []
+      };
+    }
+
+    // Name tier less any frecency boost, then bm25() within a tier
+    const text = terms.join(' ');
+    const relevance = (rank: string, initialsHit?: string): Pick<SearchPlan, 'orderBy' | 'orderParams'> => {
+      if (sortOrder) return { orderBy: groupOrder + sortOrder, orderParams: [] };
 
-    const [, operator = '=', value, unit = 'b'] = match;
-    const multipliers = {
-      b: 1,
-      kb: 1024,
-      mb: 1024 * 1024,
-      gb: 1024 * 1024 * 1024,
-      tb: 1024 * 1024 * 1024 * 1024
+      const tier = `CASE
+        WHEN files.name = ? COLLATE NOCASE THEN ${NAME_TIERS.exact}
+        WHEN files.name LIKE ? ESCAPE '\\' THEN ${NAME_TIERS.prefix}
+        ${initialsHit ? `WHEN ${initialsHit} THEN ${NAME_TIERS.initials}` : ''}
+        ELSE ${NAME_TIERS.other} END`;
+      return {
+        orderBy: `${groupOrder}${directoriesFirst}, ${tier}${usage ? ` - ${usage.sql}` : ''}, ${rank}, files.name COLLATE NOCASE`,
+        orderParams: [text, text.replace(/[\\%_]/g, '\\$&') + '%', ...(usage?.params ?? [])]
+      };
     };
 
-    const bytes = parseFloat(value) * multipliers[unit.toLowerCase() as keyof typeof multipliers];
+    // A lone short word may also be initials ("ufs" for useFileSearch.ts), so
+    // text hits are unioned with names whose initials start with it
+    if (terms.length === 1 && isAcronymCandidate(terms[0])) {
+      const initials = terms[0].toLowerCase();
+      const upperBound = initials.slice(0, -1) + String.fromCharCode(initials.charCodeAt(initials.length - 1) + 1);
+      // A word too short for trigrams matches token prefixes, so mid-word
+      // hits come from LIKE, ranked below every text match
+      const midWord = ranked.table === 'files_fts'
+        ? `UNION ALL
+            SELECT rowid, 0 AS rank FROM files WHERE name LIKE ? ESCAPE '\\'`
+        : '';
+
+      return {
+        from: `(
+          SELECT rowid, MIN(rank) AS rank FROM (
+            SELECT rowid, ${ranked.rank} AS rank FROM ${ranked.table} WHERE ${ranked.table} MATCH ?
+            UNION ALL
+            SELECT rowid, ${ACRONYM_HIT_RANK} AS rank FROM files WHERE initials >= ? AND initials < ?
+            ${midWord}
+          ) GROUP BY rowid
+        ) AS hits JOIN files ON files.rowid = hits.rowid${usageJoin}`,
+        fromParams: [
+          ranked.match,
+          initials,
+          upperBound,
+          ...(midWord ? [`%${terms[0].replace(/[\\%_]/g, '\\$&')}%`] : [])
+        ],
+        where: builder.build(),
+        ...relevance('hits.rank', `hits.rank = ${ACRONYM_HIT_RANK}`)
+      };
+    }
+
+    if (ranked.table === 'files_fts') {
+      // Only short words, which must also match mid-word: each is filtered on
+      // its own, and bm25() ranks the rows that match as text
+      for (const term of ftsTerms) {
+        const condition = compileTerm(term);
+        builder.where(condition.sql, ...condition.params);
+      }
 
-    let condition: string;
-    switch (operator) {
-      case '>':
-        condition = 'size > ?';
-        break;
-      case '>=':
-        condition = 'size >= ?';
-        break;
-      case '<':
-        condition = 'size < ?';
-        break;
-      case '<=':
-        condition = 'size <= ?';
-        break;
-      default:
-        condition = 'size = ?';
+      return {
+        from: `files LEFT JOIN (
+          SELECT rowid, ${ranked.rank} AS rank FROM files_fts WHERE files_fts MATCH ?
+        ) AS ranked ON ranked.rowid = files.rowid${usageJoin}`,
+        fromParams: [ranked.match],
+        where: builder.build(),
+        ...relevance('COALESCE(ranked.rank, 0)')
+      };
     }
 
-    return { condition, params: [bytes] };
+    return {
+      from: `${ranked.table} JOIN files ON files.rowid = ${ranked.table}.rowid${usageJoin}`,
+      fromParams: [],
+      where: builder.where(`${ranked.table} MATCH ?`, ranked.match).build(),
+      ...relevance(ranked.rank)
+    };
   }
 
+  /**
+   * The joined `file_usage` row's frecency, decayed to now, as a boost of 0
+   * to MAX_FRECENCY_BOOST tiers for ORDER BY.
+   */
+  private frecencyBoost(): { sql: string; params: unknown[] } {
+    const decayed = 'file_usage.score * pow(0.5, (? - file_usage.lastUsed) / ?)';
+    return {
+      sql: `COALESCE(MIN(${MAX_FRECENCY_BOOST}, 0.75 * log2(1 + ${decayed})), 0)`,
+      params: [Date.now(), USAGE_HALF_LIFE_MS]
+    };
+  }
+
+  private sortOrderBy({ sortBy, sortDirection }: SearchSort): string {
+    const direction = sortDirection === 'asc' ? 'ASC' : 'DESC';
+    const columns = sortBy === 'relevance' ? [] : SORT_COLUMNS[sortBy];
+
+    return [...columns, 'files.rowid']
+      // Files never opened since indexing have no access time; keep them last
+      .map(column => `${column} ${direction}${column === 'files.dateAccessed' ? ' NULLS LAST' : ''}`)
+      .join(', ');
+  }
 
+  private mapRow(row: FileRow): FileItem {
+    return {
+      id: row.id,
+      name: row.name,
+      path: row.path,
+      fullPath: row.fullPath,
+      extension: row.extension,
+      size: row.size,
+      dateModified: new Date(row.dateModified),
+      dateCreated: new Date(row.dateCreated),
+      dateAccessed: row.dateAccessed !== null ? new Date(row.dateAccessed) : undefined,
+      isDirectory: row.isDirectory === 1,
+      type: row.type as FileType,
+      entryCount: row.entryCount ?? undefined
+    };
+  }
 
   async deleteFile(fullPath: string): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
@@ -358,12 +825,186 @@ export class DatabaseService {
     }
   }
 
+  async deleteFiles(fullPaths: string[]): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+    if (fullPaths.length === 0) return;
+
+    try {
+      const stmt = this.db.prepare('DELETE FROM files WHERE fullPath = ?');
+      this.db.transaction((paths: string[]) => {
+        for (const fullPath of paths) stmt.run([fullPath]);
+      })(fullPaths);
+    } catch (error) {
+      console.error('Error deleting files:', error);
+      throw error;
+    }
+  }
+
+  /** Rows directly inside a directory, keyed by name. */
+  async getIndexedChildren(directory: string): Promise<Map<string, IndexedFileState>> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    try {
+      const rows: (IndexedFileState & { name: string })[] = this.db
+        .prepare('SELECT id, name, fullPath, size, dateModified, entryCount FROM files WHERE parentPath = ?')
+        .all([directory]);
+      return new Map(rows.map(({ name, ...state }) => [name, state]));
+    } catch (error) {
+      console.error('Error reading indexed directory:', error);
+      throw error;
+    }
+  }
+
+  /** Each directory below an absolute root that has rows directly inside it, with how many. */
+  async getIndexedDirectories(root: string): Promise<Map<string, number>> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const below = compileDirectory(root, 'subtree');
+    if (!below) return new Map();
+
+    try {
+      const rows: { parentPath: string; count: number }[] = this.db
+        .prepare(`SELECT parentPath, COUNT(*) AS count FROM files WHERE ${below.sql} GROUP BY parentPath`)
+        .all(below.params);
+      return new Map(rows.map(row => [row.parentPath, row.count]));
+    } catch (error) {
+      console.error('Error reading indexed directories:', error);
+      throw error;
+    }
+  }
+
+  /** Removes the rows directly inside each directory, as parentPath values. */
+  async deleteDirectoryContents(directories: string[]): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+    if (directories.length === 0) return;
+
+    try {
+      const stmt = this.db.prepare('DELETE FROM files WHERE parentPath = ?');
+      this.db.transaction((parents: string[]) => {
+        for (const parentPath of parents) stmt.run([parentPath]);
+      })(directories);
+    } catch (error) {
+      console.error('Error deleting directory contents:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Recomputes the size and entry count of every directory below a root from
+   * the rows directly inside it, deepest first so each total builds on those
+   * below. For when a walk did not see the whole tree, as after a resume.
+   */
+  async refreshDirectoryTotals(root: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const below = compileDirectory(root, 'subtree');
+    if (!below) return;
+
+    try {
+      const directories: { fullPath: string }[] = this.db
+        .prepare(`SELECT fullPath FROM files WHERE ${below.sql} AND files.isDirectory = 1 ORDER BY files.depth DESC`)
+        .all(below.params);
+      const stmt = this.db.prepare(`
+        UPDATE files SET
+          size = (SELECT COALESCE(SUM(child.size), 0) FROM files AS child WHERE child.parentPath = files.fullPath),
+          entryCount = (SELECT COUNT(*) FROM files AS child WHERE child.parentPath = files.fullPath)
+        WHERE fullPath = ?
+      `);
+      this.db.transaction((rows: { fullPath: string }[]) => {
+        for (const row of rows) stmt.run([row.fullPath]);
+      })(directories);
+    } catch (error) {
+      console.error('Error refreshing directory totals:', error);
+      throw error;
+    }
+  }
+
+  /** Starts a checkpoint for a new indexing run, replacing any left by an earlier one. */
+  async createIndexCheckpoint(roots: string[], excludePaths: string[], concurrency: number | null): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    try {
+      const insertRoot = this.db.prepare('INSERT OR IGNORE INTO index_checkpoint_roots (rootPath, position) VALUES (?, ?)');
+      this.db.transaction(() => {
+        this.db.exec('DELETE FROM index_checkpoint; DELETE FROM index_checkpoint_roots;');
+        const now = Date.now();
+        this.db
+          .prepare('INSERT INTO index_checkpoint (id, excludePaths, concurrency, startedAt, updatedAt) VALUES (1, ?, ?, ?, ?)')
+          .run([JSON.stringify(excludePaths), concurrency, now, now]);
+        roots.forEach((rootPath, position) => insertRoot.run([rootPath, position]));
+      })();
+    } catch (error) {
+      console.error('Error creating index checkpoint:', error);
+      throw error;
+    }
+  }
+
+  /** Records where one root has got to, and how many files the run has processed overall. */
+  async updateIndexCheckpoint(root: IndexCheckpointRoot, filesProcessed: number): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    try {
+      this.db.transaction(() => {
+        this.db
+          .prepare('UPDATE index_checkpoint_roots SET status = ?, pendingDirectories = ?, listedDirectories = ? WHERE rootPath = ?')
+          .run([root.status, JSON.stringify(root.pendingDirectories), JSON.stringify(root.listedDirectories), root.rootPath]);
+        this.db
+          .prepare('UPDATE index_checkpoint SET filesProcessed = ?, updatedAt = ? WHERE id = 1')
+          .run([filesProcessed, Date.now()]);
+      })();
+    } catch (error) {
+      console.error('Error updating index checkpoint:', error);
+      throw error;
+    }
+  }
+
+  /** The checkpoint of the last run, or null if it finished or none has started. */
+  async getIndexCheckpoint(): Promise<IndexCheckpoint | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    try {
+      const row: IndexCheckpointRow | undefined = this.db.prepare('SELECT * FROM index_checkpoint WHERE id = 1').get();
+      if (!row) return null;
+
+      const roots: IndexCheckpointRootRow[] = this.db
+        .prepare('SELECT rootPath, status, pendingDirectories, listedDirectories FROM index_checkpoint_roots ORDER BY position')
+        .all();
+      return {
+        roots: roots.map(root => ({
+          rootPath: root.rootPath,
+          status: root.status,
+          pendingDirectories: JSON.parse(root.pendingDirectories),
+          listedDirectories: JSON.parse(root.listedDirectories)
+        })),
+        excludePaths: JSON.parse(row.excludePaths),
+        concurrency: row.concurrency,
+        filesProcessed: row.filesProcessed,
+        startedAt: new Date(row.startedAt),
+        updatedAt: new Date(row.updatedAt)
+      };
+    } catch (error) {
+      console.error('Error reading index checkpoint:', error);
+      throw error;
+    }
+  }
+
+  async clearIndexCheckpoint(): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    try {
+      this.db.exec('DELETE FROM index_checkpoint; DELETE FROM index_checkpoint_roots;');
+    } catch (error) {
+      console.error('Error clearing index checkpoint:', error);
+      throw error;
+    }
+  }
+
   async clearAll(): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
 
     try {
+      // The delete trigger removes the matching FTS rows
       this.db.exec('DELETE FROM files');
-      this.db.exec('DELETE FROM files_fts');
     } catch (error) {
       console.error('Error clearing database:', error);
       throw error;
@@ -383,6 +1024,345 @@ export class DatabaseService {
     }
   }
 
+  /**
+   * Records that a file was opened or revealed. The stored score is decayed
+   * to now before the new use is added, so it stays a frequency weighted by
+   * recency without keeping every event.
+   */
+  async recordUsage(fullPath: string, kind: FileUsageKind): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const now = Date.now();
+    try {
+      this.db.prepare(`
+        INSERT INTO file_usage (fullPath, openCount, revealCount, score, lastUsed)
+        VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT(fullPath) DO UPDATE SET
+          openCount = openCount + excluded.openCount,
+          revealCount = revealCount + excluded.revealCount,
+          score = score * pow(0.5, (excluded.lastUsed - lastUsed) / ?) + excluded.score,
+          lastUsed = excluded.lastUsed
+      `).run([fullPath, kind === 'open' ? 1 : 0, kind === 'reveal' ? 1 : 0, USAGE_WEIGHTS[kind], now, USAGE_HALF_LIFE_MS]);
+    } catch (error) {
+      console.error('Error recording file usage:', error);
+      throw error;
+    }
+  }
+
+  async getUsageCount(): Promise<number> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const row = this.db.prepare('SELECT COUNT(*) AS count FROM file_usage').get() as { count: number };
+    return row.count;
+  }
+
+  async clearUsage(): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    try {
+      this.db.exec('DELETE FROM file_usage');
+    } catch (error) {
+      console.error('Error clearing file usage:', error);
+      throw error;
+    }
+  }
+
+  getSetting(key: string): string | undefined {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const row = this.db.prepare('SELECT value FROM settings WHERE key = ?').get([key]) as { value: string } | undefined;
+    return row?.value;
+  }
+
+  setSetting(key: string, value: string): void {
+    if (!this.db) throw new Error('Database not initialized');
+
+    this.db
+      .prepare('INSERT INTO settings (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value')
+      .run([key, value]);
+  }
+
+  async getSavedSearches(): Promise<SavedSearch[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const rows: SavedSearchRow[] = this.db.prepare('SELECT * FROM saved_searches ORDER BY name COLLATE NOCASE, id').all();
+    return rows.map(row => this.mapSavedSearch(row));
+  }
+
+  async createSavedSearch(input: SavedSearchInput): Promise<SavedSearch> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    try {
+      const row: SavedSearchRow = this.db.prepare(`
+        INSERT INTO saved_searches (name, query, filters, sortBy, sortDirection, pinned, createdAt)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+        RETURNING *
+      `).get([
+        input.name,
+        input.query,
+        JSON.stringify(input.filters ?? {}),
+        input.sort?.sortBy ?? null,
+        input.sort?.sortDirection ?? null,
+        input.pinned ? 1 : 0,
+        Date.now()
+      ]);
+      return this.mapSavedSearch(row);
+    } catch (error) {
+      console.error('Error saving search:', error);
+      throw error;
+    }
+  }
+
+  /** Applies the given changes; `sort: undefined` goes back to relevance. Null if the search is gone. */
+  async updateSavedSearch(id: number, changes: Partial<SavedSearchInput>): Promise<SavedSearch | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const assignments: string[] = [];
+    const params: unknown[] = [];
+    const set = (column: string, value: unknown) => {
+      assignments.push(`${column} = ?`);
+      params.push(value);
+    };
+
+    if (changes.name !== undefined) set('name', changes.name);
+    if (changes.query !== undefined) set('query', changes.query);
+    if (changes.filters !== undefined) set('filters', JSON.stringify(changes.filters));
+    if ('sort' in changes) {
+      set('sortBy', changes.sort?.sortBy ?? null);
+      set('sortDirection', changes.sort?.sortDirection ?? null);
+    }
+    if (changes.pinned !== undefined) set('pinned', changes.pinned ? 1 : 0);
+
+    try {
+      const row: SavedSearchRow | undefined = assignments.length > 0
+        ? this.db.prepare(`UPDATE saved_searches SET ${assignments.join(', ')} WHERE id = ? RETURNING *`).get([...params, id])
+        : this.db.prepare('SELECT * FROM saved_searches WHERE id = ?').get([id]);
+      return row ? this.mapSavedSearch(row) : null;
+    } catch (error) {
+      console.error('Error updating saved search:', error);
+      throw error;
+    }
+  }
+
+  async deleteSavedSearch(id: number): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    try {
+      this.db.prepare('DELETE FROM saved_searches WHERE id = ?').run([id]);
+    } catch (error) {
+      console.error('Error deleting saved search:', error);
+      throw error;
+    }
+  }
+
+  private mapSavedSearch(row: SavedSearchRow): SavedSearch {
+    return {
+      id: row.id,
+      name: row.name,
+      query: row.query,
+      filters: JSON.parse(row.filters),
+      sort: row.sortBy ? { sortBy: row.sortBy, sortDirection: row.sortDirection ?? defaultSortDirection(row.sortBy) } : undefined,
+      pinned: row.pinned === 1,
+      createdAt: new Date(row.createdAt)
+    };
+  }
+
+  /**
+   * Completions for the word being typed in the search box, at most `limit`:
+   * extensions in the index with their file counts, folders for the directory
+   * operators, and file and folder names from an FTS prefix query.
+   */
+  async getSuggestions(request: SuggestionRequest, limit: number): Promise<Suggestion[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    try {
+      switch (request.kind) {
+        case 'extension':
+          return this.suggestExtensions(request.prefix, limit);
+        case 'folder':
+          return this.suggestFolders(request.prefix, limit);
+        case 'name':
+          return this.suggestNames(request.prefix, limit);
+      }
+    } catch (error) {
+      console.error('Error getting suggestions:', error);
+      throw error;
+    }
+  }
+
+  // Extensions are stored lowercased with their dot, so a range over the index finds them
+  private suggestExtensions(prefix: string, limit: number): Suggestion[] {
+    const from = '.' + prefix.replace(/^\./, '').toLowerCase();
+    const rows: { extension: string; count: number }[] = this.db.prepare(`
+      SELECT extension, COUNT(*) AS count
+      FROM files
+      WHERE extension >= ? AND extension < ? AND isDirectory = 0
+      GROUP BY extension
+      ORDER BY count DESC, extension
+      LIMIT ?
+    `).all([from, from + MAX_CHAR, limit]);
+
+    return rows.map(row => ({ kind: 'extension', value: row.extension.slice(1), count: row.count }));
+  }
+
+  /**
+   * Folders completing the last segment of a directory operator's value, kept
+   * below whatever precedes it: "src/co" lists folders named co… directly
+   * inside any folder named src, "/home/me/D" those inside /home/me.
+   */
+  private suggestFolders(prefix: string, limit: number): Suggestion[] {
+    const split = Math.max(prefix.lastIndexOf('/'), prefix.lastIndexOf('\\'));
+    const parent = prefix.slice(0, split + 1);
+    const partial = prefix.slice(split + 1);
+
+    const where = new QueryBuilder()
+      .where('files.isDirectory = 1')
+      .where('files.name COLLATE NOCASE >= ? AND files.name COLLATE NOCASE < ?', partial, partial + MAX_CHAR);
+    if (parent) {
+      const inParent = compileDirectory(parent, 'parent');
+      if (inParent) where.where(inParent.sql, ...inParent.params);
+    }
+    const { clause, params } = where.build();
+
+    // Folder names shared by many directories ("src", "docs") come first
+    const rows: { name: string }[] = this.db.prepare(`
+      SELECT files.name
+      FROM files
+      ${clause}
+      GROUP BY files.name
+      ORDER BY COUNT(*) DESC, files.name COLLATE NOCASE
+      LIMIT ?
+    `).all([...params, limit]);
+
+    return rows.map(row => ({ kind: 'folder', value: parent + row.name, isDirectory: true }));
+  }
+
+  // Names starting with the prefix rank above those with a later word starting with it
+  private suggestNames(prefix: string, limit: number): Suggestion[] {
+    const match = toFtsPrefixMatch(prefix);
+    if (!match) return [];
+
+    const rows: { name: string; isDirectory: number; count: number }[] = this.db.prepare(`
+      SELECT files.name, MAX(files.isDirectory) AS isDirectory, COUNT(*) AS count
+      FROM files
+      WHERE files.rowid IN (SELECT rowid FROM files_fts WHERE files_fts MATCH ? LIMIT ?)
+      GROUP BY files.name
+      ORDER BY files.name LIKE ? ESCAPE '\\' DESC, count DESC, files.name COLLATE NOCASE
+      LIMIT ?
+    `).all([`name : ${match}`, SUGGESTION_CANDIDATES, prefix.replace(/[\\%_]/g, '\\$&') + '%', limit]);
+
+    return rows.map(row => ({ kind: 'name', value: row.name, isDirectory: row.isDirectory === 1, count: row.count }));
+  }
+
+  /**
+   * Adds a search to the history and returns its id, for recordSearchClick.
+   * A run that refines the previous one while it is still being typed, or
+   * re-runs it with other filters, replaces it unless a result was clicked.
+   */
+  async recordSearch(record: SearchHistoryRecord): Promise<number> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const now = Date.now();
+    try {
+      const last = this.db.prepare('SELECT id, query, timestamp, clickedPath FROM search_history ORDER BY id DESC LIMIT 1').get() as
+        { id: number; query: string; timestamp: number; clickedPath: string | null } | undefined;
+
+      const isRefinement = last !== undefined &&
+        last.clickedPath === null &&
+        now - last.timestamp < HISTORY_TYPING_WINDOW_MS &&
+        (record.query.startsWith(last.query) || last.query.startsWith(record.query));
+
+      if (isRefinement) {
+        this.db
+          .prepare('UPDATE search_history SET query = ?, timestamp = ?, resultCount = ?, executionTime = ? WHERE id = ?')
+          .run([record.query, now, record.resultCount, record.executionTime, last.id]);
+        return last.id;
+      }
+
+      const { lastInsertRowid } = this.db
+        .prepare('INSERT INTO search_history (query, timestamp, resultCount, executionTime) VALUES (?, ?, ?, ?)')
+        .run([record.query, now, record.resultCount, record.executionTime]);
+      this.db.prepare('DELETE FROM search_history WHERE id <= ?').run([Number(lastInsertRowid) - MAX_HISTORY_ROWS]);
+      return Number(lastInsertRowid);
+    } catch (error) {
+      console.error('Error recording search:', error);
+      throw error;
+    }
+  }
+
+  async recordSearchClick(id: number, fullPath: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    try {
+      this.db.prepare('UPDATE search_history SET clickedPath = ? WHERE id = ?').run([fullPath, id]);
+    } catch (error) {
+      console.error('Error recording search click:', error);
+      throw error;
+    }
+  }
+
+  /** Recent, popular and zero-result queries, at most `limit` of each. */
+  async getSearchHistory(limit: number): Promise<SearchHistory> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    // With MAX(), SQLite takes the bare columns from the latest row of each
+    // query; ids rather than timestamps, which can tie
+    const summarise = (having: string, orderBy: string): SearchHistoryItem[] => {
+      const rows: SearchHistoryRow[] = this.db.prepare(`
+        SELECT query, MAX(id) AS latestId, timestamp AS lastUsed, COUNT(*) AS timesSearched, resultCount,
+          executionTime, COUNT(clickedPath) AS clicks
+        FROM search_history
+        GROUP BY query
+        ${having}
+        ORDER BY ${orderBy}
+        LIMIT ?
+      `).all([limit]);
+      return rows.map(row => ({
+        query: row.query,
+        lastUsed: new Date(row.lastUsed),
+        timesSearched: row.timesSearched,
+        resultCount: row.resultCount,
+        executionTime: row.executionTime,
+        clicks: row.clicks
+      }));
+    };
+
+    try {
+      const { total } = this.db.prepare('SELECT COUNT(DISTINCT query) AS total FROM search_history').get() as { total: number };
+      return {
+        recent: summarise('', 'latestId DESC'),
+        popular: summarise('HAVING timesSearched > 1', 'timesSearched DESC, latestId DESC'),
+        zeroResults: summarise('HAVING resultCount = 0', 'latestId DESC'),
+        totalQueries: total
+      };
+    } catch (error) {
+      console.error('Error reading search history:', error);
+      throw error;
+    }
+  }
+
+  async removeSearchHistory(query: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    try {
+      this.db.prepare('DELETE FROM search_history WHERE query = ?').run([query]);
+    } catch (error) {
+      console.error('Error removing search history:', error);
+      throw error;
+    }
+  }
+
+  async clearSearchHistory(): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    try {
+      this.db.exec('DELETE FROM search_history');
+    } catch (error) {
+      console.error('Error clearing search history:', error);
+      throw error;
+    }
+  }
+
   async close(): Promise<void> {
     if (!this.db) return;
 
@@ -0,0 +1,246 @@
+import fs from 'fs/promises';
+import type { Dirent } from 'fs';
+import path from 'path';
+import { FileItem, FileType } from '../../src/types';
+import { DatabaseService, IndexedFileState } from './database';
+import { v4 as uuidv4 } from 'uuid';
+
+// Entries stat'ed at once within a directory
+const STAT_CONCURRENCY = 16;
+
+export interface DirectoryScanTask {
+  directory: string;
+  rootPath: string; // For the relative `path` of each entry
+  excludePaths: string[];
+}
+
+// A subdirectory to scan next. Its size and entry count are filled in once
+// everything below it has been scanned.
+export interface ScannedDirectory {
+  item: FileItem;
+  stored?: IndexedFileState;
+}
+
+export interface DirectoryScanResult {
+  directory: string; // As a parentPath value: no trailing separator, even for "/" or "C:\"
+  status: 'scanned' | 'excluded' | 'unreadable';
+  changed: FileItem[]; // Files that are new, or differ in size or mtime from the stored row
+  removed: string[]; // fullPaths of stored rows whose entries are gone
+  subdirectories: ScannedDirectory[]; // Excluded ones are left out
+  size: number; // Of the files directly inside
+  entryCount: number; // Files and subdirectories directly inside that are indexed
+  scanned: number;
+  unchanged: number;
+}
+
+/**
+ * Lists one directory and compares it with the index: which files are new or
+ * changed, which stored rows are gone, and which subdirectories to visit. It
+ * only reads the database, so it can run on a scan worker's read-only
+ * connection; FileIndexer writes what it reports.
+ */
+export class DirectoryScanner {
+  private db: DatabaseService;
+
+  constructor(database: DatabaseService) {
+    this.db = database;
+  }
+
+  async scan(task: DirectoryScanTask): Promise<DirectoryScanResult> {
+    const { directory, rootPath, excludePaths } = task;
+    const result: DirectoryScanResult = {
+      directory: directory.replace(/[\\/]+$/, ''),
+      status: 'scanned',
+      changed: [],
+      removed: [],
+      subdirectories: [],
+      size: 0,
+      entryCount: 0,
+      scanned: 0,
+      unchanged: 0
+    };
+
+    // Check if path should be excluded
+    if (this.shouldExcludePath(directory, excludePaths)) {
+      return { ...result, status: 'excluded' };
+    }
+
+    let entries: Dirent[];
+    try {
+      entries = await fs.readdir(directory, { withFileTypes: true });
+    } catch (error) {
+      // Only log non-permission errors
+      if (error.code !== 'EACCES' && error.code !== 'EPERM') {
+        console.warn(`Cannot read directory ${directory}: ${error.code}`);
+      }
+      return { ...result, status: 'unreadable' };
+    }
+
+    // Stored rows for this directory, compared with its entries one by one
+    const indexed = await this.db.getIndexedChildren(result.directory);
+    const included = entries.filter(entry => {
+      // Skip hidden files and system files
+      if (entry.name.startsWith('.') || entry.name.startsWith('$')) {
+        return false;
+      }
+
+      // Skip problematic Windows system files
+      if (process.platform === 'win32') {
+        const systemFiles = ['pagefile.sys', 'hiberfil.sys', 'swapfile.sys'];
+        if (systemFiles.includes(entry.name.toLowerCase())) {
+          return false;
+        }
+      }
+
+      return !entry.isDirectory() || !this.shouldExcludePath(path.join(directory, entry.name), excludePaths);
+    });
+
+    const relativePath = path.relative(rootPath, directory) || '.';
+    for (let i = 0; i < included.length; i += STAT_CONCURRENCY) {
+      await Promise.all(included.slice(i, i + STAT_CONCURRENCY).map(async entry => {
+        const fullPath = path.join(directory, entry.name);
+        const stored = indexed.get(entry.name);
+        indexed.delete(entry.name);
+
+        try {
+          // Get proper file stats for accurate metadata
+          const stats = await fs.stat(fullPath);
+          const item: FileItem = {
+            id: stored?.id ?? uuidv4(),
+            name: entry.name,
+            path: relativePath,
+            fullPath: fullPath,
+            extension: entry.isDirectory() ? '' : path.extname(entry.name).toLowerCase(),
+            size: stats.size,
+            dateModified: stats.mtime,
+            dateCreated: stats.birthtime || stats.ctime,
+            dateAccessed: stats.atime,
+            isDirectory: entry.isDirectory(),
+            type: this.getFileType(entry.name, entry.isDirectory())
+          };
+          result.entryCount++;
+
+          if (entry.isDirectory()) {
+            result.subdirectories.push({ item, stored });
+            return;
+          }
+
+          result.scanned++;
+          result.size += stats.size;
+          if (stored && stored.size === stats.size && stored.dateModified === stats.mtime.getTime()) {
+            result.unchanged++;
+          } else {
+            result.changed.push(item);
+          }
+        } catch (error) {
+          // Skip entries that can't be accessed
+          if (error.code !== 'EACCES' && error.code !== 'EPERM' && error.code !== 'EBUSY') {
+            console.warn(`Skipping ${fullPath}: ${error.code}`);
+          }
+        }
+      }));
+    }
+
+    // What is left was indexed here but is gone, hidden or excluded
+    result.removed = [...indexed.values()].map(row => row.fullPath);
+    return result;
+  }
+
+  private shouldExcludePath(currentPath: string, excludePaths: string[]): boolean {
+    const normalizedPath = path.normalize(currentPath).toLowerCase();
+    const pathParts = normalizedPath.split(path.sep);
+
+    // Default exclusions - more comprehensive
+    const defaultExclusions = [
+      'node_modules',
+      '.git',
+      '.svn',
+      '.hg',
+      'temp',
+      'tmp',
+      '$recycle.bin',
+      'system volume information',
+      'windows',
+      'appdata',
+      '.cache',
+      '.npm',
+      '.yarn',
+      'cache',
+      'logs',
+      '.vscode',
+      '.idea',
+      'build',
+      'dist',
+      'out',
+      'target'
+    ];
+
+    // Check if any part of the path contains excluded directories
+    for (const exclusion of [...defaultExclusions, ...excludePaths]) {
+      const normalizedExclusion = exclusion.toLowerCase();
+
+      // Check if any path segment matches exactly
+      if (pathParts.includes(normalizedExclusion)) {
+        return true;
+      }
+
+      // Check if path contains the exclusion
+      if (normalizedPath.includes(normalizedExclusion)) {
+        return true;
+      }
+    }
+
+    // Skip very deep paths to prevent infinite recursion
+    if (pathParts.length > 20) {
+      return true;
+    }
+
+    return false;
+  }
+
+  private getFileType(fileName: string, isDirectory: boolean): FileType {
+    if (isDirectory) {
+      return FileType.DIRECTORY;
+    }
+
+    const extension = path.extname(fileName).toLowerCase();
+    
+    // Document types
+    const documentExts = ['.pdf', '.doc', '.docx', '.txt', '.rtf', '.odt', '.xls', '.xlsx', '.ppt', '.pptx'];
+    if (documentExts.includes(extension)) {
+      return FileType.DOCUMENT;
+    }
+
+    // Image types
+    const imageExts = ['.jpg', '.jpeg', '.png', '.gif', '.bmp', '.svg', '.webp', '.ico', '.tiff'];
+    if (imageExts.includes(extension)) {
+      return FileType.IMAGE;
+    }
+
+    // Video types
+    const videoExts = ['.mp4', '.avi', '.mkv', '.mov', '.wmv', '.flv', '.webm', '.m4v'];
+    if (videoExts.includes(extension)) {
+      return FileType.VIDEO;
+    }
+
+    // Audio types
+    const audioExts = ['.mp3', '.wav', '.flac', '.aac', '.ogg', '.wma', '.m4a'];
+    if (audioExts.includes(extension)) {
+      return FileType.AUDIO;
+    }
+
+    // Archive types
+    const archiveExts = ['.zip', '.rar', '.7z', '.tar', '.gz', '.bz2', '.xz'];
+    if (archiveExts.includes(extension)) {
+      return FileType.ARCHIVE;
+    }
+
+    // Code types
+    const codeExts = ['.js', '.ts', '.jsx', '.tsx', '.py', '.java', '.c', '.cpp', '.cs', '.php', '.rb', '.go', '.rs', '.html', '.css', '.scss', '.json', '.xml', '.yaml', '.yml'];
+    if (codeExts.includes(extension)) {
+      return FileType.CODE;
+    }
+
+    return FileType.OTHER;
+  }
+}
@@ -196,6 +196,7 @@ export class FileWatcher extends EventEmitter {
       size: stats.size,
       dateModified: stats.mtime,
       dateCreated: stats.birthtime,
+      dateAccessed: stats.atime,
       isDirectory: stats.isDirectory(),
       type: this.getFileType(fileName, stats.isDirectory())
     };
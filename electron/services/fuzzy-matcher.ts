@@ -0,0 +1,105 @@
+// Typo-tolerant matching for terms that found nothing exactly. Candidates come
+// from the trigram index (see DatabaseService.findFuzzyCandidates); this module
+// scores them by edit distance.
+
+export interface FuzzyMatch {
+  distance: number; // Edits needed to turn the term into part of the text
+  start: number; // Where in the text the closest match begins
+}
+
+/**
+ * Overlapping three-character chunks of a term, lower-cased and de-duplicated:
+ * "Report" -> rep, epo, por, ort. Terms shorter than three characters have none.
+ */
+export function toTrigrams(term: string): string[] {
+  const lower = term.toLowerCase();
+  const trigrams = new Set<string>();
+  for (let i = 0; i + 3 <= lower.length; i++) {
+    trigrams.add(lower.slice(i, i + 3));
+  }
+  return Array.from(trigrams);
+}
+
+/** How many edits a term of this length may need and still count as a match. */
+export function maxEditsFor(term: string): number {
+  if (term.length <= 4) return 1;
+  if (term.length <= 8) return 2;
+  return 3;
+}
+
+/**
+ * Closest approximate occurrence of `term` anywhere in `text`, counting
+ * insertions, deletions, substitutions and swaps of adjacent characters
+ * (optimal string alignment), case-insensitively. Returns null when every
+ * occurrence needs more than `maxEdits` edits.
+ *
+ * This is the usual edit-distance table with the first row left at zero, so a
+ * match may start at any position in the text without cost.
+ */
+export function fuzzyMatch(term: string, text: string, maxEdits = maxEditsFor(term)): FuzzyMatch | null {
+  const pattern = term.toLowerCase();
+  const target = text.toLowerCase();
+  const m = pattern.length;
+  const n = target.length;
+
+  if (m === 0) return { distance: 0, start: 0 };
+
+  // Rows i-2, i-1 and i of the table, plus where each cell's alignment starts
+  let beforePrevious = new Array<number>(n + 1).fill(0);
+  let previous = new Array<number>(n + 1).fill(0);
+  let current = new Array<number>(n + 1).fill(0);
+  let previousStart = Array.from({ length: n + 1 }, (_, j) => j);
+  let beforePreviousStart = previousStart.slice();
+  let currentStart = previousStart.slice();
+
+  for (let i = 1; i <= m; i++) {
+    current[0] = i;
+    currentStart[0] = 0;
+    let rowMin = current[0];
+
+    for (let j = 1; j <= n; j++) {
+      const cost = pattern[i - 1] === target[j - 1] ? 0 : 1;
+      let best = previous[j - 1] + cost;
+      let start = previousStart[j - 1];
+
+      if (previous[j] + 1 < best) {
+        best = previous[j] + 1;
+        start = previousStart[j];
+      }
+      if (current[j - 1] + 1 < best) {
+        best = current[j - 1] + 1;
+        start = currentStart[j - 1];
+      }
+      if (
+        i > 1 && j > 1 &&
+        pattern[i - 1] === target[j - 2] &&
+        pattern[i - 2] === target[j - 1] &&
+        beforePrevious[j - 2] + 1 < best
+      ) {
+        best = beforePrevious[j - 2] + 1;
+        start = beforePreviousStart[j - 2];
+      }
+
+      current[j] = best;
+      currentStart[j] = start;
+      if (best < rowMin) rowMin = best;
+    }
+
+    // Every alignment already needs too many edits
+    if (rowMin > maxEdits) return null;
+
+    [beforePrevious, previous, current] = [previous, current, beforePrevious];
+    [beforePreviousStart, previousStart, currentStart] = [previousStart, currentStart, beforePreviousStart];
+  }
+
+  let distance = Infinity;
+  let start = 0;
+  for (let j = 0; j <= n; j++) {
+    if (previous[j] < distance) {
+      distance = previous[j];
+      start = previousStart[j];
+    }
+  }
+
+  return distance <= maxEdits ? { distance, start } : null;
+}
@@ -1,311 +1,481 @@
-import fs from 'fs/promises';
 import path from 'path';
+import os from 'os';
 import { EventEmitter } from 'events';
-import { FileItem, FileType, IndexingProgress } from '../../src/types';
-import { DatabaseService } from './database';
-import { v4 as uuidv4 } from 'uuid';
+import { FileItem, IndexingProgress, IndexingCheckpointSummary } from '../../src/types';
+import { DatabaseService, IndexCheckpoint, IndexCheckpointRoot } from './database';
+import { BatchQueue } from './batch-queue';
+import { DirectoryScanResult, ScannedDirectory } from './directory-scanner';
+import { ScanWorkerPool } from './scan-pool';
+
+// Files are committed in transactions of BATCH_SIZE, so each batch is
+// searchable as soon as it is written. The scan pauses while QUEUE_CAPACITY
+// files are waiting, which bounds memory however large the tree is.
+const BATCH_SIZE = 500;
+const QUEUE_CAPACITY = 5000;
+const FLUSH_INTERVAL_MS = 1000;
+
+// Directories of one root listed at once, unless the request says otherwise.
+// Scanning waits on the disk far more than the CPU, so the pool may be
+// larger than the core count.
+const DEFAULT_ROOT_CONCURRENCY = 2;
+const MAX_SCAN_WORKERS = Math.max(4, os.cpus().length);
+
+// Directories finish far faster than anyone can read, so progress is sent at most this often
+const PROGRESS_INTERVAL_MS = 100;
+
+export interface IndexingOptions {
+  rebuild?: boolean; // Empty the index first instead of updating it in place
+  concurrency?: number; // Directories listed at once within each root
+}
+
+// A directory whose total is still being added up. It is written once every
+// subdirectory below it has been, so sizes roll up from the leaves.
+interface DirectoryNode {
+  directory: string;
+  entry: ScannedDirectory | null; // Null where a walk starts, which gets no row of its own
+  parent: DirectoryNode | null;
+  recursive: boolean; // False to list it again without its subdirectories, which are accounted for
+  listed: boolean;
+  readable: boolean;
+  remaining: number; // Subdirectories not yet totalled
+  size: number; // Everything below it, so far
+  entryCount: number;
+}
+
+// What one walk of a root has found so far. Only directories are remembered,
+// never files, so memory stays small however many files the walk passes.
+interface ScanState {
+  rootPath: string;
+  queue: BatchQueue<FileItem>; // New or changed files, and directories whose totals changed
+  queued: number; // Entries pushed to the queue so far
+  written: number; // Entries the queue has written, or dropped
+  pending: DirectoryNode[]; // Directories found but not yet listed
+  listing: Set<DirectoryNode>;
+  unwritten: Array<{ directory: string; until: number }>; // Listed, with changes queued until `written` reaches `until`
+  visited: Set<string>; // Directories listed, as parentPath values
+  unreadable: string[]; // Directories whose stored rows are kept, as their contents are unknown
+  unchanged: number;
+}
 
 export class FileIndexer extends EventEmitter {
   private db: DatabaseService;
+  private scanWorkerPath: string;
   private isIndexing = false;
   private shouldStop = false;
+  private expectedFiles = 0; // Rows already indexed under the roots being walked
+  private lastProgressAt = 0;
   private currentProgress: IndexingProgress = {
     isIndexing: false,
     filesProcessed: 0,
     progress: 0
   };
 
-  constructor(database: DatabaseService) {
+  constructor(database: DatabaseService, scanWorkerPath: string) {
     super();
     this.db = database;
+    this.scanWorkerPath = scanWorkerPath;
+  }
+
+  /**
+   * Brings the index up to date with the given roots. By default this updates
+   * it in place, so search keeps working throughout and file ids stay stable;
+   * `rebuild` empties it first. Roots are walked side by side on a pool of
+   * scan workers, and this thread only writes what they report.
+   *
+   * Where each root has got to is checkpointed as batches are written, so a
+   * run that is stopped or dies can be carried on with resumeIndexing().
+   */
+  async startIndexing(paths: string[], excludePaths: string[] = [], options: IndexingOptions = {}): Promise<void> {
+    console.log('Starting indexing with paths:', paths);
+    console.log('Exclude paths:', excludePaths);
+
+    const roots: IndexCheckpointRoot[] = paths.map(rootPath => ({
+      rootPath,
+      status: 'pending',
+      pendingDirectories: [],
+      listedDirectories: []
+    }));
+    await this.run(roots, excludePaths, options, null);
+  }
+
+  /** Carries on from where an interrupted run got to, leaving the roots it completed as they are. */
+  async resumeIndexing(): Promise<void> {
+    const checkpoint = await this.db.getIndexCheckpoint();
+    if (!checkpoint) {
+      throw new Error('No interrupted indexing to resume');
+    }
+
+    console.log(`Resuming indexing from ${checkpoint.updatedAt.toISOString()}`);
+
+    const roots = checkpoint.roots.filter(root => root.status !== 'complete');
+    await this.run(roots, checkpoint.excludePaths, { concurrency: checkpoint.concurrency ?? undefined }, checkpoint);
+  }
+
+  /** Reads the checkpoint an interrupted run left, so getProgress() can offer to resume it. */
+  async loadCheckpoint(): Promise<void> {
+    if (this.isIndexing) return;
+    this.currentProgress.checkpoint = await this.summarizeCheckpoint();
   }
 
-  async startIndexing(paths: string[], excludePaths: string[] = []): Promise<void> {
+  private async run(
+    roots: IndexCheckpointRoot[],
+    excludePaths: string[],
+    options: IndexingOptions,
+    checkpoint: IndexCheckpoint | null
+  ): Promise<void> {
     if (this.isIndexing) {
       throw new Error('Indexing already in progress');
     }
 
-    console.log('Starting indexing with paths:', paths);
-    console.log('Exclude paths:', excludePaths);
-
     this.isIndexing = true;
     this.shouldStop = false;
+    this.expectedFiles = 0;
     this.currentProgress = {
       isIndexing: true,
-      filesProcessed: 0,
-      progress: 0
+      filesProcessed: checkpoint?.filesProcessed ?? 0,
+      progress: 0,
+      resumed: checkpoint !== null
     };
 
     this.emit('progress', this.currentProgress);
 
-    try {
-      // Clear existing data
-      await this.db.clearAll();
-      console.log('Database cleared, starting file discovery...');
+    const concurrency = Math.max(1, Math.floor(options.concurrency ?? DEFAULT_ROOT_CONCURRENCY));
+    const pool = new ScanWorkerPool(
+      this.scanWorkerPath,
+      this.db.getPath(),
+      Math.min(MAX_SCAN_WORKERS, roots.length * concurrency)
+    );
 
-      // Start indexing each path with better error handling
-      for (const rootPath of paths) {
-        if (this.shouldStop) break;
+    try {
+      if (!checkpoint) {
+        if (options.rebuild) {
+          await this.db.clearAll();
+          console.log('Database cleared, starting file discovery...');
+        }
+        await this.db.createIndexCheckpoint(roots.map(root => root.rootPath), excludePaths, options.concurrency ?? null);
+      }
 
-        console.log(`Starting to index path: ${rootPath}`);
+      const failedRoots: string[] = [];
+      await Promise.all(roots.map(async root => {
+        console.log(`Starting to index path: ${root.rootPath}`);
         try {
-          await this.indexPath(rootPath, excludePaths);
-          console.log(`Completed indexing path: ${rootPath}`);
+          if (await this.indexPath(root, excludePaths, pool, concurrency)) {
+            console.log(`Completed indexing path: ${root.rootPath}`);
+          }
         } catch (pathError) {
-          console.error(`Failed to index path ${rootPath}:`, pathError);
-          // Continue with other paths even if one fails
-          continue;
+          // Other roots carry on even if one fails; this one is walked again on resume
+          console.error(`Failed to index path ${root.rootPath}:`, pathError);
+          failedRoots.push(root.rootPath);
+          await this.resetCheckpoint(root.rootPath);
         }
+      }));
+
+      // A stopped run, or one where a root failed, keeps its checkpoint so it can be resumed
+      if (!this.shouldStop && failedRoots.length === 0) {
+        await this.db.clearIndexCheckpoint();
       }
 
       this.currentProgress.isIndexing = false;
       this.currentProgress.progress = 100;
+      this.currentProgress.checkpoint = await this.summarizeCheckpoint();
       this.emit('progress', this.currentProgress);
       this.emit('complete');
-      console.log('Indexing completed successfully');
+      if (failedRoots.length > 0) {
+        console.warn(`Indexing finished, but failed for: ${failedRoots.join(', ')}`);
+      } else {
+        console.log('Indexing completed successfully');
+      }
     } catch (error) {
       console.error('Indexing failed:', error);
       this.currentProgress.isIndexing = false;
       this.emit('error', error);
     } finally {
+      await pool.close();
       this.isIndexing = false;
     }
   }
 
-  async indexPath(rootPath: string, excludePaths: string[] = []): Promise<void> {
-    const files: FileItem[] = [];
-    const batchSize = 500; // Smaller batches for better responsiveness
-    let totalProcessed = 0;
-
-    console.log(`Starting to scan directory: ${rootPath}`);
-
-    // Scan directory and collect files
-    await this.scanDirectory(rootPath, rootPath, excludePaths, files);
-
-    console.log(`Found ${files.length} files to index`);
-
-    if (files.length === 0) {
-      console.log('No files found to index');
-      return;
-    }
-
-    // Insert files in batches with progress updates
-    for (let i = 0; i < files.length; i += batchSize) {
-      if (this.shouldStop) break;
-
-      const batch = files.slice(i, i + batchSize);
-
+  // Walks one root; returns false if the run was stopped before it finished
+  private async indexPath(
+    root: IndexCheckpointRoot,
+    excludePaths: string[],
+    pool: ScanWorkerPool,
+    concurrency: number
+  ): Promise<boolean> {
+    const { rootPath } = root;
+    const resumed = root.status === 'scanning';
+    let totalWritten = 0;
+
+    // Workers report files that differ from the index; the queue writes them,
+    // and the checkpoint moves on with each batch
+    const queue = new BatchQueue<FileItem>(async batch => {
       try {
         await this.db.insertFiles(batch);
-        totalProcessed += batch.length;
-
-        // Update progress
-        this.currentProgress.filesProcessed = totalProcessed;
-        this.currentProgress.progress = Math.min(95, (totalProcessed / files.length) * 100);
-        this.currentProgress.currentPath = `Indexed ${totalProcessed}/${files.length} files`;
-        this.emit('progress', this.currentProgress);
+      } finally {
+        // A failed batch is dropped rather than retried, so it is done with either way
+        scan.written += batch.length;
+      }
+      await this.saveCheckpoint(scan, 'scanning');
+    }, {
+      batchSize: BATCH_SIZE,
+      capacity: QUEUE_CAPACITY,
+      flushIntervalMs: FLUSH_INTERVAL_MS
+    });
+    queue.on('written', (batch: FileItem[]) => {
+      totalWritten += batch.length;
+    });
+
+    const startAt = (directory: string, recursive: boolean): DirectoryNode => ({
+      directory,
+      entry: null,
+      parent: null,
+      recursive,
+      listed: false,
+      readable: true,
+      remaining: 0,
+      size: 0,
+      entryCount: 0
+    });
+    const scan: ScanState = {
+      rootPath,
+      queue,
+      queued: 0,
+      written: 0,
+      pending: resumed
+        ? [
+          ...root.listedDirectories.map(directory => startAt(directory, false)),
+          ...root.pendingDirectories.map(directory => startAt(directory, true))
+        ]
+        : [startAt(rootPath, true)],
+      listing: new Set(),
+      unwritten: [],
+      visited: new Set(),
+      unreadable: [],
+      unchanged: 0
+    };
+    await this.saveCheckpoint(scan, 'scanning');
 
-        console.log(`Indexed batch: ${totalProcessed}/${files.length} files (${this.currentProgress.progress.toFixed(1)}%)`);
+    // A previous index of the roots gives an estimate of how far along the walk is
+    const indexedDirectories = await this.db.getIndexedDirectories(rootPath);
+    for (const count of indexedDirectories.values()) this.expectedFiles += count;
 
-        // Small delay to prevent blocking
-        await new Promise(resolve => setTimeout(resolve, 10));
-      } catch (error) {
-        console.error(`Failed to insert batch starting at index ${i}:`, error);
-        // Continue with next batch
-      }
-    }
+    try {
+      await new Promise<void>(resolve => {
+        let active = 0;
 
-    console.log(`Completed indexing ${totalProcessed} files from ${rootPath}`);
-  }
+        const next = () => {
+          if (active === 0 && (scan.pending.length === 0 || this.shouldStop)) {
+            resolve();
+            return;
+          }
 
-  private async scanDirectory(
-    currentPath: string,
-    rootPath: string,
-    excludePaths: string[],
-    files: FileItem[]
-  ): Promise<void> {
-    if (this.shouldStop) return;
+          // Depth first, so the pending list stays short
+          while (!this.shouldStop && active < concurrency && scan.pending.length > 0) {
+            const node = scan.pending.pop()!;
+            const { directory } = node;
+            scan.listing.add(node);
+            active++;
+
+            pool.scan({ directory, rootPath, excludePaths })
+              .then(result => this.applyScanResult(result, node, scan))
+              .catch(async error => {
+                console.warn(`Failed to scan ${directory}:`, error);
+                scan.listing.delete(node);
+                scan.unreadable.push(directory.replace(/[\\/]+$/, ''));
+                if (!node.listed) {
+                  node.readable = false;
+                  node.listed = true;
+                  await this.completeDirectory(node, scan);
+                }
+              })
+              .finally(() => {
+                active--;
+                next();
+              });
+          }
+        };
 
-    // Check if path should be excluded
-    if (this.shouldExcludePath(currentPath, excludePaths)) {
-      return;
+        next();
+      });
+    } finally {
+      await queue.close();
     }
 
-    try {
-      const entries = await fs.readdir(currentPath, { withFileTypes: true });
-      const directories: string[] = [];
+    console.log(`Scanned ${rootPath}: ${totalWritten} new or changed entries written, ${scan.unchanged} files unchanged`);
 
-      // Process files first, collect directories for later
-      for (const entry of entries) {
-        if (this.shouldStop) break;
+    // A stopped scan hasn't visited everything, so what it didn't see may still
+    // exist. It stays in the checkpoint instead.
+    if (this.shouldStop) {
+      await this.saveCheckpoint(scan, 'scanning');
+      return false;
+    }
 
-        const fullPath = path.join(currentPath, entry.name);
+    if (resumed) {
+      // Directories listed before the interruption were not seen again, so
+      // their totals are added up from the index. What vanished from them is
+      // left for the next full walk to find.
+      await this.db.refreshDirectoryTotals(rootPath);
+      console.log(`Completed indexing ${rootPath} from a checkpoint`);
+    } else {
+      // Directories that were indexed but are gone, or now excluded
+      const vanished = [...indexedDirectories.keys()].filter(directory =>
+        !scan.visited.has(directory) &&
+        !scan.unreadable.some(unreadable => directory === unreadable || directory.startsWith(unreadable + path.sep))
+      );
+      await this.db.deleteDirectoryContents(vanished);
+
+      console.log(`Completed indexing ${rootPath}: ${vanished.length} vanished directories removed`);
+    }
 
-        // Skip hidden files and system files
-        if (entry.name.startsWith('.') || entry.name.startsWith('$')) {
-          continue;
-        }
+    await this.saveCheckpoint(scan, 'complete');
+    return true;
+  }
 
-        // Skip problematic Windows system files
-        if (process.platform === 'win32') {
-          const systemFiles = ['pagefile.sys', 'hiberfil.sys', 'swapfile.sys'];
-          if (systemFiles.includes(entry.name.toLowerCase())) {
-            continue;
-          }
-        }
+  // Queues the changes a worker found. Awaiting the queue holds this worker's
+  // slot until there is room, which is what slows the walk to the writer's pace.
+  private async applyScanResult(result: DirectoryScanResult, node: DirectoryNode, scan: ScanState): Promise<void> {
+    if (result.status === 'scanned') {
+      scan.visited.add(result.directory);
+    } else if (result.status === 'unreadable') {
+      scan.unreadable.push(result.directory);
+    }
+    node.readable = result.status === 'scanned';
 
-        try {
-          if (entry.isDirectory()) {
-            directories.push(fullPath);
-          } else {
-            // Get proper file stats for accurate metadata
-            const stats = await fs.stat(fullPath);
-            const relativePath = path.relative(rootPath, path.dirname(fullPath));
-
-            const fileItem: FileItem = {
-              id: uuidv4(),
-              name: entry.name,
-              path: relativePath || '.',
-              fullPath: fullPath,
-              extension: path.extname(entry.name).toLowerCase(),
-              size: stats.size,
-              dateModified: stats.mtime,
-              dateCreated: stats.birthtime || stats.ctime,
-              isDirectory: false,
-              type: this.getFileType(entry.name, false)
-            };
-
-            files.push(fileItem);
-
-            // Update progress more frequently but emit less frequently
-            this.currentProgress.filesProcessed++;
-
-            if (this.currentProgress.filesProcessed % 50 === 0) {
-              this.currentProgress.currentPath = fullPath;
-              this.emit('progress', this.currentProgress);
-
-              // Small yield to prevent blocking
-              await new Promise(resolve => setImmediate(resolve));
-            }
-          }
-        } catch (error) {
-          // Skip files that can't be accessed
-          if (error.code !== 'EACCES' && error.code !== 'EPERM' && error.code !== 'EBUSY') {
-            console.warn(`Skipping ${fullPath}: ${error.code}`);
-          }
-        }
-      }
+    scan.unchanged += result.unchanged;
+    this.currentProgress.filesProcessed += result.scanned;
+    this.currentProgress.currentPath = result.directory;
+    this.reportProgress();
 
-      // Process directories after files
-      for (const dirPath of directories) {
-        if (this.shouldStop) break;
-        await this.scanDirectory(dirPath, rootPath, excludePaths, files);
-      }
+    for (const file of result.changed) {
+      await this.enqueue(file, scan);
+    }
+    // New directories are written when found, not only once their totals are
+    // known, so a walk resumed after an interruption still finds their rows
+    for (const { item, stored } of result.subdirectories) {
+      if (!stored) await this.enqueue(item, scan);
+    }
+    // The worker listed the whole directory, so these are gone even if indexing is stopping
+    await this.db.deleteFiles(result.removed);
+
+    node.listed = true;
+    node.size += result.size;
+    node.entryCount = result.entryCount;
+    if (node.recursive) {
+      node.remaining += result.subdirectories.length;
+      scan.pending.push(...result.subdirectories.map(entry => ({
+        directory: entry.item.fullPath,
+        entry,
+        parent: node,
+        recursive: true,
+        listed: false,
+        readable: true,
+        remaining: 0,
+        size: 0,
+        entryCount: 0
+      })));
+    }
+    scan.listing.delete(node);
+    scan.unwritten.push({ directory: node.directory, until: scan.queued });
 
-    } catch (error) {
-      // Only log non-permission errors
-      if (error.code !== 'EACCES' && error.code !== 'EPERM') {
-        console.warn(`Cannot read directory ${currentPath}: ${error.code}`);
-      }
+    if (node.remaining === 0) {
+      await this.completeDirectory(node, scan);
     }
   }
 
-  private shouldExcludePath(currentPath: string, excludePaths: string[]): boolean {
-    const normalizedPath = path.normalize(currentPath).toLowerCase();
-    const pathParts = normalizedPath.split(path.sep);
-
-    // Default exclusions - more comprehensive
-    const defaultExclusions = [
-      'node_modules',
-      '.git',
-      '.svn',
-      '.hg',
-      'temp',
-      'tmp',
-      '$recycle.bin',
-      'system volume information',
-      'windows',
-      'appdata',
-      '.cache',
-      '.npm',
-      '.yarn',
-      'cache',
-      'logs',
-      '.vscode',
-      '.idea',
-      'build',
-      'dist',
-      'out',
-      'target'
-    ];
-
-    // Check if any part of the path contains excluded directories
-    for (const exclusion of [...defaultExclusions, ...excludePaths]) {
-      const normalizedExclusion = exclusion.toLowerCase();
-
-      // Check if any path segment matches exactly
-      if (pathParts.includes(normalizedExclusion)) {
-        return true;
+  // Writes a directory whose subdirectories are all totalled, then adds its
+  // size to its parent, which may complete that one in turn.
+  private async completeDirectory(node: DirectoryNode, scan: ScanState): Promise<void> {
+    for (let current: DirectoryNode | null = node; current; current = current.parent) {
+      if (!current.listed || current.remaining > 0) return;
+
+      const { entry } = current;
+      if (entry && current.readable) {
+        const { item, stored } = entry;
+        const unchanged = stored &&
+          stored.size === current.size &&
+          stored.entryCount === current.entryCount &&
+          stored.dateModified === item.dateModified.getTime();
+        if (!unchanged) {
+          await this.enqueue({ ...item, size: current.size, entryCount: current.entryCount }, scan);
+        }
+      } else if (entry) {
+        // Its contents are unknown, so the previous total stands in for them
+        current.size = entry.stored?.size ?? 0;
       }
 
-      // Check if path contains the exclusion
-      if (normalizedPath.includes(normalizedExclusion)) {
-        return true;
+      if (current.parent) {
+        current.parent.size += current.size;
+        current.parent.remaining--;
       }
     }
+  }
 
-    // Skip very deep paths to prevent infinite recursion
-    if (pathParts.length > 20) {
-      return true;
-    }
-
-    return false;
+  private async enqueue(item: FileItem, scan: ScanState): Promise<void> {
+    scan.queued++;
+    await scan.queue.push(item);
   }
 
-  private getFileType(fileName: string, isDirectory: boolean): FileType {
-    if (isDirectory) {
-      return FileType.DIRECTORY;
+  // Records the directories a resumed walk would have to list: those not yet
+  // listed, and those listed whose changes are not all written yet
+  private async saveCheckpoint(scan: ScanState, status: IndexCheckpointRoot['status']): Promise<void> {
+    while (scan.unwritten.length > 0 && scan.unwritten[0].until <= scan.written) {
+      scan.unwritten.shift();
     }
 
-    const extension = path.extname(fileName).toLowerCase();
-    
-    // Document types
-    const documentExts = ['.pdf', '.doc', '.docx', '.txt', '.rtf', '.odt', '.xls', '.xlsx', '.ppt', '.pptx'];
-    if (documentExts.includes(extension)) {
-      return FileType.DOCUMENT;
+    const unlisted = status === 'complete' ? [] : [...scan.pending, ...scan.listing];
+    try {
+      await this.db.updateIndexCheckpoint({
+        rootPath: scan.rootPath,
+        status,
+        pendingDirectories: unlisted.filter(node => node.recursive).map(node => node.directory),
+        listedDirectories: [
+          ...unlisted.filter(node => !node.recursive).map(node => node.directory),
+          ...(status === 'complete' ? [] : scan.unwritten.map(entry => entry.directory))
+        ]
+      }, this.currentProgress.filesProcessed);
+    } catch (error) {
+      // An older checkpoint only means more to do again on resume
+      console.warn(`Failed to save indexing checkpoint for ${scan.rootPath}:`, error);
     }
+  }
 
-    // Image types
-    const imageExts = ['.jpg', '.jpeg', '.png', '.gif', '.bmp', '.svg', '.webp', '.ico', '.tiff'];
-    if (imageExts.includes(extension)) {
-      return FileType.IMAGE;
+  // Sends a root that failed part way back to the start, since how far its
+  // checkpoint got says nothing about what the failure left unwritten
+  private async resetCheckpoint(rootPath: string): Promise<void> {
+    try {
+      await this.db.updateIndexCheckpoint({
+        rootPath,
+        status: 'pending',
+        pendingDirectories: [],
+        listedDirectories: []
+      }, this.currentProgress.filesProcessed);
+    } catch (error) {
+      console.warn(`Failed to reset indexing checkpoint for ${rootPath}:`, error);
     }
+  }
 
-    // Video types
-    const videoExts = ['.mp4', '.avi', '.mkv', '.mov', '.wmv', '.flv', '.webm', '.m4v'];
-    if (videoExts.includes(extension)) {
-      return FileType.VIDEO;
-    }
+  private async summarizeCheckpoint(): Promise<IndexingCheckpointSummary | undefined> {
+    const checkpoint = await this.db.getIndexCheckpoint();
+    if (!checkpoint) return undefined;
 
-    // Audio types
-    const audioExts = ['.mp3', '.wav', '.flac', '.aac', '.ogg', '.wma', '.m4a'];
-    if (audioExts.includes(extension)) {
-      return FileType.AUDIO;
-    }
+    return {
+      paths: checkpoint.roots.map(root => root.rootPath),
+      completedPaths: checkpoint.roots.filter(root => root.status === 'complete').map(root => root.rootPath),
+      pendingDirectories: checkpoint.roots.reduce((sum, root) => sum + root.pendingDirectories.length + root.listedDirectories.length, 0),
+      filesProcessed: checkpoint.filesProcessed,
+      updatedAt: checkpoint.updatedAt
+    };
+  }
 
-    // Archive types
-    const archiveExts = ['.zip', '.rar', '.7z', '.tar', '.gz', '.bz2', '.xz'];
-    if (archiveExts.includes(extension)) {
-      return FileType.ARCHIVE;
-    }
+  private reportProgress(): void {
+    const now = Date.now();
+    if (now - this.lastProgressAt < PROGRESS_INTERVAL_MS) return;
+    this.lastProgressAt = now;
 
-    // Code types
-    const codeExts = ['.js', '.ts', '.jsx', '.tsx', '.py', '.java', '.c', '.cpp', '.cs', '.php', '.rb', '.go', '.rs', '.html', '.css', '.scss', '.json', '.xml', '.yaml', '.yml'];
-    if (codeExts.includes(extension)) {
-      return FileType.CODE;
+    if (this.expectedFiles > 0) {
+      this.currentProgress.progress = Math.min(95, (this.currentProgress.filesProcessed / this.expectedFiles) * 100);
     }
-
-    return FileType.OTHER;
+    this.emit('progress', this.currentProgress);
   }
 
   stopIndexing(): void {
@@ -3,31 +3,64 @@ import { DatabaseService } from './database';
 import { FileIndexer } from './indexer';
 import { FileWatcher } from './file-watcher';
 import { SearchService } from './search'
+import { SearchWorkerPool } from './search-pool';
+import { SavedSearchService } from './saved-searches';
 import * as fs from 'fs'
-import { IpcSearchRequest, IpcIndexRequest, IpcResponse } from '../../src/types';
+import { IpcSearchRequest, IpcIndexRequest, IpcResponse, FileUsageKind, SavedSearch, SavedSearchInput, SearchHistoryRecord, SuggestionRequest } from '../../src/types';
+
+// Entries in each search history list sent to the renderer
+const HISTORY_LIST_LIMIT = 10;
+
+// Completions shown while typing
+const SUGGESTION_LIMIT = 8;
 
 export class IpcHandlers {
   private db: DatabaseService;
   private indexer: FileIndexer;
   private fileWatcher: FileWatcher;
   private searchService: SearchService;
-
-  constructor(database: DatabaseService, indexer: FileIndexer, fileWatcher: FileWatcher) {
+  private searchPool: SearchWorkerPool;
+  private savedSearches: SavedSearchService;
+
+  constructor(
+    database: DatabaseService,
+    indexer: FileIndexer,
+    fileWatcher: FileWatcher,
+    searchPool: SearchWorkerPool,
+    savedSearches: SavedSearchService
+  ) {
     this.db = database;
     this.indexer = indexer;
     this.fileWatcher = fileWatcher;
+    // Searches run on the pool's workers; this instance only handles usage data
     this.searchService = new SearchService(database);
+    this.searchPool = searchPool;
+    this.savedSearches = savedSearches;
     this.setupHandlers();
   }
 
+  // Usage only tunes ranking, so failing to record it must not fail the action
+  private async recordUsage(filePath: string, kind: FileUsageKind): Promise<void> {
+    try {
+      await this.searchService.recordUsage(filePath, kind);
+    } catch (error) {
+      console.warn(`Failed to record ${kind} of ${filePath}:`, error);
+    }
+  }
+
+  // Every window shows the same history, so each change is pushed to all of them
+  private async broadcastSearchHistory(): Promise<void> {
+    const history = await this.db.getSearchHistory(HISTORY_LIST_LIMIT);
+    BrowserWindow.getAllWindows().forEach(window => {
+      window.webContents.send('search-history-updated', history);
+    });
+  }
+
   private setupHandlers(): void {
-    // Search files
+    // Search files on a worker thread, keeping the main process responsive
     ipcMain.handle('search-files', async (event, request: IpcSearchRequest): Promise<IpcResponse> => {
       try {
-        const { query, filters, limit = 100, offset = 0 } = request;
-
-        // Use the advanced search service
-        const searchResult = await this.searchService.search(query, filters, limit, offset);
+        const searchResult = await this.searchPool.search(request);
 
         return {
           success: true,
@@ -41,6 +74,216 @@ export class IpcHandlers {
       }
     });
 
+    // Stream a search: result chunks go to the sender on 'search-chunk' and
+    // the response is the summary
+    ipcMain.handle('search-stream', async (event, request: IpcSearchRequest): Promise<IpcResponse> => {
+      try {
+        const summary = await this.searchPool.stream(request, (chunk) => {
+          if (!event.sender.isDestroyed()) {
+            event.sender.send('search-chunk', chunk);
+          }
+        });
+
+        return {
+          success: true,
+          data: summary
+        };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        };
+      }
+    });
+
+    // Cancel a search started with search-files or search-stream
+    ipcMain.handle('cancel-search', async (event, requestId: string): Promise<IpcResponse> => {
+      try {
+        return {
+          success: true,
+          data: { cancelled: this.searchPool.cancel(requestId) }
+        };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        };
+      }
+    });
+
+    // Saved searches, listed with their current counts
+    ipcMain.handle('get-saved-searches', async (): Promise<IpcResponse> => {
+      try {
+        return {
+          success: true,
+          data: await this.savedSearches.list()
+        };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        };
+      }
+    });
+
+    ipcMain.handle('create-saved-search', async (event, input: SavedSearchInput): Promise<IpcResponse> => {
+      try {
+        if (!input?.name?.trim() || typeof input.query !== 'string') {
+          return {
+            success: false,
+            error: 'A saved search needs a name and a query'
+          };
+        }
+
+        return {
+          success: true,
+          data: await this.savedSearches.create({ ...input, name: input.name.trim() })
+        };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        };
+      }
+    });
+
+    ipcMain.handle('update-saved-search', async (event, id: number, changes: Partial<SavedSearchInput>): Promise<IpcResponse> => {
+      try {
+        if (changes.name !== undefined && !changes.name.trim()) {
+          return {
+            success: false,
+            error: 'A saved search needs a name'
+          };
+        }
+
+        return {
+          success: true,
+          data: await this.savedSearches.update(id, changes)
+        };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        };
+      }
+    });
+
+    ipcMain.handle('delete-saved-search', async (event, id: number): Promise<IpcResponse> => {
+      try {
+        await this.savedSearches.delete(id);
+        return {
+          success: true,
+          data: { message: 'Saved search deleted' }
+        };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        };
+      }
+    });
+
+    // Completions for the word at the cursor in the search box
+    ipcMain.handle('get-suggestions', async (event, request: SuggestionRequest): Promise<IpcResponse> => {
+      try {
+        return {
+          success: true,
+          data: await this.db.getSuggestions(request, SUGGESTION_LIMIT)
+        };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        };
+      }
+    });
+
+    // Search history, kept here so every part of the renderer sees the same one
+    ipcMain.handle('get-search-history', async (): Promise<IpcResponse> => {
+      try {
+        return {
+          success: true,
+          data: await this.db.getSearchHistory(HISTORY_LIST_LIMIT)
+        };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        };
+      }
+    });
+
+    ipcMain.handle('record-search', async (event, record: SearchHistoryRecord): Promise<IpcResponse> => {
+      try {
+        if (typeof record?.query !== 'string' || !record.query.trim()) {
+          return {
+            success: false,
+            error: 'Only searches with a query are kept in history'
+          };
+        }
+
+        const id = await this.db.recordSearch({ ...record, query: record.query.trim() });
+        await this.broadcastSearchHistory();
+        return {
+          success: true,
+          data: { id }
+        };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        };
+      }
+    });
+
+    ipcMain.handle('record-search-click', async (event, id: number, filePath: string): Promise<IpcResponse> => {
+      try {
+        await this.db.recordSearchClick(id, filePath);
+        await this.broadcastSearchHistory();
+        return {
+          success: true,
+          data: { message: 'Click recorded' }
+        };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        };
+      }
+    });
+
+    ipcMain.handle('remove-search-history', async (event, query: string): Promise<IpcResponse> => {
+      try {
+        await this.db.removeSearchHistory(query);
+        await this.broadcastSearchHistory();
+        return {
+          success: true,
+          data: { message: 'Search removed from history' }
+        };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        };
+      }
+    });
+
+    ipcMain.handle('clear-search-history', async (): Promise<IpcResponse> => {
+      try {
+        await this.db.clearSearchHistory();
+        await this.broadcastSearchHistory();
+        return {
+          success: true,
+          data: { message: 'Search history cleared' }
+        };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        };
+      }
+    });
+
     // Start indexing
     ipcMain.handle('start-indexing', async (event, request: IpcIndexRequest): Promise<IpcResponse> => {
       try {
@@ -74,8 +317,13 @@ export class IpcHandlers {
         console.log('Starting indexing with paths:', validPaths);
         console.log('Exclude paths:', excludePaths);
 
+        const options = {
+          rebuild: request.rebuild === true,
+          concurrency: typeof request.concurrency === 'number' && request.concurrency >= 1 ? request.concurrency : undefined
+        };
+
         // Start indexing (don't await - let it run in background)
-        this.indexer.startIndexing(validPaths, excludePaths).catch(error => {
+        this.indexer.startIndexing(validPaths, excludePaths, options).catch(error => {
           console.error('Indexing error:', error);
           const windows = BrowserWindow.getAllWindows();
           windows.forEach(window => {
@@ -104,6 +352,52 @@ export class IpcHandlers {
       }
     });
 
+    // Resume an interrupted indexing run from its checkpoint
+    ipcMain.handle('resume-indexing', async (): Promise<IpcResponse> => {
+      try {
+        if (this.indexer.isCurrentlyIndexing()) {
+          return {
+            success: false,
+            error: 'Indexing already in progress'
+          };
+        }
+
+        const checkpoint = await this.db.getIndexCheckpoint();
+        if (!checkpoint) {
+          return {
+            success: false,
+            error: 'No interrupted indexing to resume'
+          };
+        }
+
+        // Start indexing (don't await - let it run in background)
+        this.indexer.resumeIndexing().catch(error => {
+          console.error('Indexing error:', error);
+          const windows = BrowserWindow.getAllWindows();
+          windows.forEach(window => {
+            window.webContents.send('indexing-error', error.message);
+          });
+        });
+
+        try {
+          await this.fileWatcher.startWatching(checkpoint.roots.map(root => root.rootPath), checkpoint.excludePaths);
+        } catch (watchError) {
+          console.warn('File watching failed to start:', watchError);
+        }
+
+        return {
+          success: true,
+          data: { message: 'Indexing resumed' }
+        };
+      } catch (error) {
+        console.error('Resume indexing error:', error);
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        };
+      }
+    });
+
     // Stop indexing
     ipcMain.handle('stop-indexing', async (): Promise<IpcResponse> => {
       try {
@@ -157,6 +451,7 @@ export class IpcHandlers {
     ipcMain.handle('open-file-location', async (event, filePath: string): Promise<IpcResponse> => {
       try {
         await shell.showItemInFolder(filePath);
+        await this.recordUsage(filePath, 'reveal');
         return {
           success: true,
           data: { message: 'File location opened' }
@@ -173,6 +468,7 @@ export class IpcHandlers {
     ipcMain.handle('open-file', async (event, filePath: string): Promise<IpcResponse> => {
       try {
         await shell.openPath(filePath);
+        await this.recordUsage(filePath, 'open');
         return {
           success: true,
           data: { message: 'File opened' }
@@ -185,6 +481,51 @@ export class IpcHandlers {
       }
     });
 
+    // Frecency ranking settings and data
+    ipcMain.handle('get-usage-settings', async (): Promise<IpcResponse> => {
+      try {
+        return {
+          success: true,
+          data: await this.searchService.getUsageSettings()
+        };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        };
+      }
+    });
+
+    ipcMain.handle('set-usage-learning', async (event, enabled: boolean): Promise<IpcResponse> => {
+      try {
+        this.searchService.setUsageLearningEnabled(enabled === true);
+        return {
+          success: true,
+          data: await this.searchService.getUsageSettings()
+        };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        };
+      }
+    });
+
+    ipcMain.handle('clear-usage-data', async (): Promise<IpcResponse> => {
+      try {
+        await this.searchService.clearUsage();
+        return {
+          success: true,
+          data: await this.searchService.getUsageSettings()
+        };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        };
+      }
+    });
+
     // Get system drives (Windows specific for now)
     ipcMain.handle('get-system-drives', async (): Promise<IpcResponse> => {
       try {
@@ -312,5 +653,13 @@ export class IpcHandlers {
         window.webContents.send('watching-stopped');
       });
     });
+
+    // Setup saved search events
+    this.savedSearches.on('updated', (searches: SavedSearch[]) => {
+      const windows = BrowserWindow.getAllWindows();
+      windows.forEach(window => {
+        window.webContents.send('saved-searches-updated', searches);
+      });
+    });
   }
 }
@@ -0,0 +1,300 @@
+import type BetterSqlite3 from 'better-sqlite3';
+import { getInitials } from '../../src/lib/word-match';
+
+export interface Migration {
+  version: number;
+  description: string;
+  // Destructive migrations drop or rewrite data, so the DB file is backed up first
+  destructive?: boolean;
+  up: (db: BetterSqlite3.Database) => void;
+}
+
+export class MigrationError extends Error {
+  readonly version: number;
+  readonly backupPath?: string;
+
+  constructor(migration: Migration, cause: unknown, backupPath?: string) {
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    super(`Migration ${migration.version} (${migration.description}) failed: ${reason}`);
+    this.name = 'MigrationError';
+    this.version = migration.version;
+    this.backupPath = backupPath;
+  }
+}
+
+/**
+ * Ordered schema migrations. Each one runs in its own transaction together
+ * with the `PRAGMA user_version` bump, so a failure leaves the database at
+ * the previous version. Never edit a migration that has shipped; add a new one.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'files table with FTS and trigram indexes',
+    up: (db) => {
+      // Databases from before versioning already have `files`, hence IF NOT EXISTS
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS files (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          path TEXT NOT NULL,
+          fullPath TEXT NOT NULL UNIQUE,
+          extension TEXT,
+          size INTEGER,
+          dateModified INTEGER,
+          dateCreated INTEGER,
+          isDirectory INTEGER,
+          type TEXT
+        )
+      `);
+
+      db.exec(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS files_fts USING fts5(
+          name,
+          path,
+          fullPath,
+          content='files',
+          content_rowid='rowid'
+        )
+      `);
+
+      // Trigram index over the same rows so 3+ character fragments from the
+      // middle of a name ("port_v2" in "report_v2_final.xlsx") resolve from an index
+      db.exec(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS files_trigram USING fts5(
+          name,
+          path,
+          content='files',
+          content_rowid='rowid',
+          tokenize='trigram'
+        )
+      `);
+
+      // Keep both external-content tables in sync with `files`. The triggers use
+      // the row's real rowid, so FTS hits always join back to the right file.
+      db.exec(`
+        CREATE TRIGGER IF NOT EXISTS files_fts_ai AFTER INSERT ON files BEGIN
+          INSERT INTO files_fts(rowid, name, path, fullPath) VALUES (new.rowid, new.name, new.path, new.fullPath);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS files_fts_ad AFTER DELETE ON files BEGIN
+          INSERT INTO files_fts(files_fts, rowid, name, path, fullPath) VALUES ('delete', old.rowid, old.name, old.path, old.fullPath);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS files_fts_au AFTER UPDATE ON files BEGIN
+          INSERT INTO files_fts(files_fts, rowid, name, path, fullPath) VALUES ('delete', old.rowid, old.name, old.path, old.fullPath);
+          INSERT INTO files_fts(rowid, name, path, fullPath) VALUES (new.rowid, new.name, new.path, new.fullPath);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS files_trigram_ai AFTER INSERT ON files BEGIN
+          INSERT INTO files_trigram(rowid, name, path) VALUES (new.rowid, new.name, new.path);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS files_trigram_ad AFTER DELETE ON files BEGIN
+          INSERT INTO files_trigram(files_trigram, rowid, name, path) VALUES ('delete', old.rowid, old.name, old.path);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS files_trigram_au AFTER UPDATE ON files BEGIN
+          INSERT INTO files_trigram(files_trigram, rowid, name, path) VALUES ('delete', old.rowid, old.name, old.path);
+          INSERT INTO files_trigram(rowid, name, path) VALUES (new.rowid, new.name, new.path);
+        END;
+      `);
+
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_files_path ON files(path);
+        CREATE INDEX IF NOT EXISTS idx_files_extension ON files(extension);
+        CREATE INDEX IF NOT EXISTS idx_files_size ON files(size);
+        CREATE INDEX IF NOT EXISTS idx_files_date_modified ON files(dateModified);
+        CREATE INDEX IF NOT EXISTS idx_files_type ON files(type);
+      `);
+
+      // Unversioned databases may have FTS rows keyed by unrelated rowids
+      db.exec(`INSERT INTO files_fts(files_fts) VALUES ('rebuild')`);
+      db.exec(`INSERT INTO files_trigram(files_trigram) VALUES ('rebuild')`);
+    }
+  },
+  {
+    version: 2,
+    description: 'indexed depth and parent directory columns',
+    up: (db) => {
+      // `path` is the directory relative to the indexed root ('.' for the root
+      // itself), so depth counts its segments: 1 for entries directly in the root.
+      // Virtual columns are computed on read and cost nothing to keep in sync.
+      db.exec(`
+        ALTER TABLE files ADD COLUMN depth INTEGER GENERATED ALWAYS AS (
+          CASE WHEN path = '.' THEN 1
+          ELSE length(path) - length(replace(replace(path, '/', ''), '\\', '')) + 2 END
+        ) VIRTUAL;
+
+        ALTER TABLE files ADD COLUMN parentPath TEXT GENERATED ALWAYS AS (
+          substr(fullPath, 1, length(fullPath) - length(name) - 1)
+        ) VIRTUAL;
+
+        CREATE INDEX IF NOT EXISTS idx_files_depth ON files(depth);
+        CREATE INDEX IF NOT EXISTS idx_files_parent_path ON files(parentPath);
+      `);
+    }
+  },
+  {
+    version: 3,
+    description: 'access time and date indexes for created: and accessed:',
+    up: (db) => {
+      // Existing rows get an access time the next time they are indexed
+      db.exec(`
+        ALTER TABLE files ADD COLUMN dateAccessed INTEGER;
+
+        CREATE INDEX IF NOT EXISTS idx_files_date_created ON files(dateCreated);
+        CREATE INDEX IF NOT EXISTS idx_files_date_accessed ON files(dateAccessed);
+      `);
+    }
+  },
+  {
+    version: 4,
+    description: 'file usage for frecency ranking, and settings',
+    up: (db) => {
+      // Keyed by fullPath rather than files.id so usage survives re-indexing.
+      // `score` is the decayed use count as of `lastUsed`.
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS file_usage (
+          fullPath TEXT PRIMARY KEY,
+          openCount INTEGER NOT NULL DEFAULT 0,
+          revealCount INTEGER NOT NULL DEFAULT 0,
+          score REAL NOT NULL DEFAULT 0,
+          lastUsed INTEGER NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS settings (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL
+        );
+      `);
+    }
+  },
+  {
+    version: 5,
+    description: 'name initials for acronym matching',
+    up: (db) => {
+      // Only re-index FTS rows when an indexed column changes, so writing
+      // columns like initials or size does not rewrite both FTS tables
+      db.exec(`
+        DROP TRIGGER IF EXISTS files_fts_au;
+        CREATE TRIGGER files_fts_au AFTER UPDATE OF name, path, fullPath ON files BEGIN
+          INSERT INTO files_fts(files_fts, rowid, name, path, fullPath) VALUES ('delete', old.rowid, old.name, old.path, old.fullPath);
+          INSERT INTO files_fts(rowid, name, path, fullPath) VALUES (new.rowid, new.name, new.path, new.fullPath);
+        END;
+
+        DROP TRIGGER IF EXISTS files_trigram_au;
+        CREATE TRIGGER files_trigram_au AFTER UPDATE OF name, path ON files BEGIN
+          INSERT INTO files_trigram(files_trigram, rowid, name, path) VALUES ('delete', old.rowid, old.name, old.path);
+          INSERT INTO files_trigram(rowid, name, path) VALUES (new.rowid, new.name, new.path);
+        END;
+
+        ALTER TABLE files ADD COLUMN initials TEXT;
+        CREATE INDEX IF NOT EXISTS idx_files_initials ON files(initials);
+      `);
+
+      // Word boundaries need Unicode-aware case rules, so compute them in JS
+      // (in pages, as the connection cannot write while iterating a query)
+      const select = db.prepare('SELECT rowid, name FROM files WHERE rowid > ? ORDER BY rowid LIMIT 10000');
+      const update = db.prepare('UPDATE files SET initials = ? WHERE rowid = ?');
+      let lastRowid = 0;
+      for (;;) {
+        const rows = select.all(lastRowid) as Array<{ rowid: number; name: string }>;
+        if (rows.length === 0) break;
+        for (const row of rows) {
+          update.run(getInitials(row.name), row.rowid);
+        }
+        lastRowid = rows[rows.length - 1].rowid;
+      }
+    }
+  },
+  {
+    version: 6,
+    description: 'indexes for sorting by name and by path',
+    up: (db) => {
+      // Sorts compare text case-insensitively, which the BINARY indexes on
+      // these columns cannot serve
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_files_name_nocase ON files(name COLLATE NOCASE);
+        CREATE INDEX IF NOT EXISTS idx_files_parent_path_nocase ON files(parentPath COLLATE NOCASE, name COLLATE NOCASE);
+      `);
+    }
+  },
+  {
+    version: 7,
+    description: 'saved searches',
+    up: (db) => {
+      // Filters are stored as the JSON the renderer sends, dates as ISO strings
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS saved_searches (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          query TEXT NOT NULL,
+          filters TEXT NOT NULL DEFAULT '{}',
+          sortBy TEXT,
+          sortDirection TEXT,
+          pinned INTEGER NOT NULL DEFAULT 0,
+          createdAt INTEGER NOT NULL
+        );
+      `);
+    }
+  },
+  {
+    version: 8,
+    description: 'search history',
+    up: (db) => {
+      // One row per search run; clickedPath is the result opened from it, if any
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS search_history (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          query TEXT NOT NULL,
+          timestamp INTEGER NOT NULL,
+          resultCount INTEGER NOT NULL,
+          executionTime INTEGER NOT NULL,
+          clickedPath TEXT
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_search_history_query ON search_history(query);
+      `);
+    }
+  },
+  {
+    version: 9,
+    description: 'entry counts of directories',
+    up: (db) => {
+      // Set on directories by the indexer, along with the total size of their
+      // contents in `size`; null on files and on directories not yet indexed
+      db.exec(`
+        ALTER TABLE files ADD COLUMN entryCount INTEGER;
+      `);
+    }
+  },
+  {
+    version: 10,
+    description: 'indexing checkpoints',
+    up: (db) => {
+      // The run being indexed (one row at most) and where each of its roots got
+      // to. Directory lists are JSON arrays of full paths.
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS index_checkpoint (
+          id INTEGER PRIMARY KEY CHECK (id = 1),
+          excludePaths TEXT NOT NULL,
+          concurrency INTEGER,
+          filesProcessed INTEGER NOT NULL DEFAULT 0,
+          startedAt INTEGER NOT NULL,
+          updatedAt INTEGER NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS index_checkpoint_roots (
+          rootPath TEXT PRIMARY KEY,
+          position INTEGER NOT NULL,
+          status TEXT NOT NULL DEFAULT 'pending',
+          pendingDirectories TEXT NOT NULL DEFAULT '[]',
+          listedDirectories TEXT NOT NULL DEFAULT '[]'
+        );
+      `);
+    }
+  }
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
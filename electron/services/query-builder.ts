@@ -0,0 +1,93 @@
+import { SearchFilters } from '../../src/types';
+import { CompiledCondition, compileDirectory } from './query-compiler';
+
+export interface WhereClause {
+  clause: string; // Empty, or "WHERE ..." ready to splice into a statement
+  params: unknown[];
+}
+
+/**
+ * Collects parameterised WHERE conditions for queries against `files`.
+ * Conditions should qualify their columns (`files.name`) so the clause stays
+ * valid when `files` is joined with the FTS tables, which share column names.
+ */
+export class QueryBuilder {
+  private conditions: string[] = [];
+  private params: unknown[] = [];
+
+  where(condition: string, ...params: unknown[]): this {
+    this.conditions.push(condition);
+    this.params.push(...params);
+    return this;
+  }
+
+  whereIn(column: string, values: unknown[]): this {
+    if (values.length === 0) return this;
+    return this.where(`${column} IN (${values.map(() => '?').join(', ')})`, ...values);
+  }
+
+  whereFilters(filters: SearchFilters = {}): this {
+    if (filters.fileTypes && filters.fileTypes.length > 0) {
+      this.whereIn('files.type', filters.fileTypes);
+    }
+
+    if (filters.extensions && filters.extensions.length > 0) {
+      const extensions = filters.extensions.map(ext => {
+        const normalized = ext.trim().toLowerCase();
+        return normalized.startsWith('.') ? normalized : '.' + normalized;
+      });
+      this.whereIn('files.extension', extensions);
+    }
+
+    if (filters.sizeMin) {
+      this.where('files.size >= ?', filters.sizeMin);
+    }
+    if (filters.sizeMax !== undefined && Number.isFinite(filters.sizeMax)) {
+      this.where('files.size <= ?', filters.sizeMax);
+    }
+
+    this.whereDateRange('files.dateModified', filters.dateModifiedFrom, filters.dateModifiedTo);
+    this.whereDateRange('files.dateCreated', filters.dateCreatedFrom, filters.dateCreatedTo);
+    this.whereDateRange('files.dateAccessed', filters.dateAccessedFrom, filters.dateAccessedTo);
+
+    if (filters.folders && filters.folders.length > 0) {
+      const scopes = filters.folders
+        .map(folder => compileDirectory(folder, 'subtree'))
+        .filter((scope): scope is CompiledCondition => scope !== null);
+      if (scopes.length > 0) {
+        this.where(`(${scopes.map(scope => scope.sql).join(' OR ')})`, ...scopes.flatMap(scope => scope.params));
+      }
+    }
+
+    if (filters.includeDirectories === false) {
+      this.where('files.isDirectory = 0');
+    }
+
+    return this;
+  }
+
+  whereDateRange(column: string, from?: Date, to?: Date): this {
+    // Dates may arrive as strings when filters were serialised along the way
+    if (from) {
+      this.where(`${column} >= ?`, new Date(from).getTime());
+    }
+    if (to) {
+      this.where(`${column} < ?`, new Date(to).getTime());
+    }
+    return this;
+  }
+
+  clone(): QueryBuilder {
+    const copy = new QueryBuilder();
+    copy.conditions = [...this.conditions];
+    copy.params = [...this.params];
+    return copy;
+  }
+
+  build(): WhereClause {
+    return {
+      clause: this.conditions.length > 0 ? `WHERE ${this.conditions.join(' AND ')}` : '',
+      params: [...this.params]
+    };
+  }
+}
@@ -0,0 +1,478 @@
+import { QueryNode, resolveFileType, globToRegExpSource, isPathGlob } from '../../src/lib/query-parser';
+import { parseSizeQuery } from '../../src/lib/size-query';
+
+export interface CompiledCondition {
+  sql: string;
+  params: unknown[];
+}
+
+/**
+ * A query that parsed but cannot be run as written, such as an invalid
+ * `regex:` pattern. The message is meant to be shown to the user.
+ */
+export class SearchQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SearchQueryError';
+  }
+}
+
+const MAX_REGEX_LENGTH = 500;
+
+interface DateRange {
+  from?: Date;
+  to?: Date; // Exclusive
+}
+
+type DateField = 'dateModified' | 'dateCreated' | 'dateAccessed';
+
+// `date:` predates the others and stays an alias for `modified:`
+const DATE_FIELDS: Record<string, DateField> = {
+  date: 'dateModified',
+  modified: 'dateModified',
+  created: 'dateCreated',
+  accessed: 'dateAccessed'
+};
+
+/**
+ * Compiles a query AST into a single SQL condition on `files`. Returns null
+ * when the tree places no constraint on results (empty, or only operators
+ * with values that could not be parsed).
+ */
+export function compileQuery(node: QueryNode | null): CompiledCondition | null {
+  if (!node) return null;
+
+  switch (node.type) {
+    case 'and':
+    case 'or': {
+      const parts = node.children
+        .map(compileQuery)
+        .filter((part): part is CompiledCondition => part !== null);
+      if (parts.length === 0) return null;
+      if (parts.length === 1) return parts[0];
+      return {
+        sql: `(${parts.map(part => part.sql).join(node.type === 'and' ? ' AND ' : ' OR ')})`,
+        params: parts.flatMap(part => part.params)
+      };
+    }
+    case 'not': {
+      const inner = compileQuery(node.child);
+      return inner ? { sql: `NOT ${inner.sql}`, params: inner.params } : null;
+    }
+    case 'term':
+      return compileTerm(node.value, node.quoted);
+    case 'glob':
+      return compileGlob(node.pattern);
+    case 'field':
+      return compileField(node.field, node.value);
+  }
+}
+
+/**
+ * Text terms resolve from an index whenever possible: 3+ characters match
+ * anywhere in the name or path through the trigram table, and anything else
+ * falls back to LIKE. Shorter words also match token prefixes through
+ * files_fts, OR'd with the LIKE on the name so they still match mid-word.
+ */
+export function compileTerm(value: string, quoted = false): CompiledCondition {
+  const trigramMatch = toTrigramMatch(value);
+  if (trigramMatch) {
+    return {
+      sql: 'files.rowid IN (SELECT rowid FROM files_trigram WHERE files_trigram MATCH ?)',
+      params: [trigramMatch]
+    };
+  }
+
+  const like = `%${value.replace(/[\\%_]/g, '\\$&')}%`;
+  const ftsMatch = quoted ? null : toFtsPrefixMatch(value);
+  if (ftsMatch) {
+    return {
+      sql: `(files.rowid IN (SELECT rowid FROM files_fts WHERE files_fts MATCH ?) OR files.name LIKE ? ESCAPE '\\')`,
+      params: [ftsMatch, like]
+    };
+  }
+
+  return {
+    sql: `(files.name LIKE ? ESCAPE '\\' OR files.path LIKE ? ESCAPE '\\')`,
+    params: [like, like]
+  };
+}
+
+/**
+ * Trigram MATCH phrase for a substring, or null when it is shorter than the
+ * three characters the trigram tokenizer needs.
+ */
+export function toTrigramMatch(value: string): string | null {
+  return value.length >= 3 ? `"${value.replace(/"/g, '""')}"` : null;
+}
+
+/**
+ * FTS5 phrase of the value's tokens with a prefix match on the last one, or
+ * null when nothing in it is tokenizable.
+ */
+export function toFtsPrefixMatch(value: string): string | null {
+  const tokens = value.match(/[\p{L}\p{N}]+/gu);
+  return tokens ? `"${tokens.join(' ')}"*` : null;
+}
+
+/**
+ * Name globs (`*.test.ts`) translate directly to LIKE. Path globs
+ * (`src/**\/index.*`) use a LIKE over fullPath to narrow candidates and the
+ * REGEXP function for the segment-aware match; both are case-insensitive.
+ */
+function compileGlob(pattern: string): CompiledCondition {
+  if (!isPathGlob(pattern)) {
+    return { sql: `files.name LIKE ? ESCAPE '\\'`, params: [globToLike(pattern)] };
+  }
+
+  return {
+    sql: `(files.fullPath LIKE ? ESCAPE '\\' AND files.fullPath REGEXP ?)`,
+    params: [`%${globToLike(pattern)}`, `(?:^|[\\\\/])${globToRegExpSource(pattern)}$`]
+  };
+}
+
+/**
+ * LIKE pattern accepting at least everything the glob does. Separators become
+ * `_` so paths with either '/' or '\' get through, and `**\/` becomes `%`
+ * because it may match no directories at all.
+ */
+function globToLike(glob: string): string {
+  let like = '';
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === '*') {
+      while (glob[i + 1] === '*') i++;
+      if (glob[i - 1] === '*' && (glob[i + 1] === '/' || glob[i + 1] === '\\')) i++;
+      like += '%';
+    } else if (char === '?' || char === '/' || char === '\\') {
+      like += '_';
+    } else if (char === '%' || char === '_') {
+      like += '\\' + char;
+    } else {
+      like += char;
+    }
+  }
+
+  return like;
+}
+
+/**
+ * `regex:` matches the file name. Patterns are validated here so a typo is
+ * reported as such instead of failing inside SQLite, and patterns with nested
+ * quantifiers like (a+)+ are refused because they can backtrack for minutes.
+ */
+function compileRegex(pattern: string): CompiledCondition {
+  if (pattern.length > MAX_REGEX_LENGTH) {
+    throw new SearchQueryError(`Regular expression is too long (max ${MAX_REGEX_LENGTH} characters)`);
+  }
+
+  try {
+    new RegExp(pattern, 'i');
+  } catch (error) {
+    throw new SearchQueryError(error instanceof Error ? error.message : `Invalid regular expression: ${pattern}`);
+  }
+
+  if (/\((?:[^()\\]|\\.)*[+*}](?:[^()\\]|\\.)*\)[+*{]/.test(pattern)) {
+    throw new SearchQueryError('Regular expression has nested repetition, which can take too long to evaluate');
+  }
+
+  return { sql: 'files.name REGEXP ?', params: [pattern] };
+}
+
+/**
+ * `name:` is a text term restricted to the basename, using the name column of
+ * the same FTS tables; a value with wildcards is a name glob.
+ */
+function compileName(value: string): CompiledCondition {
+  if (/[*?]/.test(value)) return compileGlob(value);
+
+  const trigramMatch = toTrigramMatch(value);
+  if (trigramMatch) {
+    return {
+      sql: 'files.rowid IN (SELECT rowid FROM files_trigram WHERE files_trigram MATCH ?)',
+      params: [`name : ${trigramMatch}`]
+    };
+  }
+
+  const like = `%${value.replace(/[\\%_]/g, '\\$&')}%`;
+  return { sql: `files.name LIKE ? ESCAPE '\\'`, params: [like] };
+}
+
+/**
+ * `in:`/`path:` (anywhere below a directory) and `parent:` (directly inside
+ * it). Absolute directories compare against the indexed fullPath and
+ * parentPath columns. Anything else names folders below an indexed root, so
+ * `in:src/components` matches that pair of segments at any depth; those use
+ * the trigram index on `path` to find candidates and REGEXP to check the
+ * segment boundaries.
+ */
+export function compileDirectory(value: string, scope: 'subtree' | 'parent'): CompiledCondition | null {
+  const isAbsolute = /^([\\/]|[a-z]:[\\/])/i.test(value);
+  const directory = value.replace(/(.)[\\/]+$/, '$1');
+
+  if (isAbsolute) {
+    // From the value as typed: trimming leaves no separator in a drive root like C:\
+    const separator = value.includes('\\') ? '\\' : '/';
+    const prefix = directory.endsWith(separator) ? directory : directory + separator;
+
+    if (scope === 'parent') {
+      return { sql: 'files.parentPath = ?', params: [prefix.slice(0, -1)] };
+    }
+
+    // Range over the fullPath index: everything starting with "dir/"
+    const upperBound = prefix.slice(0, -1) + String.fromCharCode(separator.charCodeAt(0) + 1);
+    return { sql: '(files.fullPath >= ? AND files.fullPath < ?)', params: [prefix, upperBound] };
+  }
+
+  const segments = directory.replace(/^\.[\\/]/, '').split(/[\\/]+/).filter(segment => segment.length > 0);
+  if (segments.length === 0) return null;
+
+  const escaped = segments.map(segment => segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const end = scope === 'parent' ? '$' : '(?:[\\\\/]|$)';
+  const condition: CompiledCondition = {
+    sql: 'files.path REGEXP ?',
+    params: [`(?:^|[\\\\/])${escaped.join('[\\\\/]')}${end}`]
+  };
+
+  const longest = segments.reduce((a, b) => (b.length > a.length ? b : a));
+  const trigramMatch = toTrigramMatch(longest);
+  if (!trigramMatch) return condition;
+
+  return {
+    sql: `(files.rowid IN (SELECT rowid FROM files_trigram WHERE files_trigram MATCH ?) AND ${condition.sql})`,
+    params: [`path : ${trigramMatch}`, ...condition.params]
+  };
+}
+
+function compileField(field: string, value: string): CompiledCondition | null {
+  switch (field) {
+    case 'ext': {
+      const extensions = splitList(value).map(ext => (ext.startsWith('.') ? ext : '.' + ext).toLowerCase());
+      return inCondition('files.extension', extensions);
+    }
+    case 'type':
+      return inCondition('files.type', splitList(value).map(resolveFileType));
+    case 'size': {
+      const range = parseSizeQuery(value);
+      return range ? boundsCondition('files.size', range.min, range.max) : null;
+    }
+    case 'date':
+    case 'modified':
+    case 'created':
+    case 'accessed': {
+      const range = parseDateRange(value);
+      return range ? dateCondition(`files.${DATE_FIELDS[field]}`, range) : null;
+    }
+    case 'regex':
+      return compileRegex(value);
+    case 'name':
+      return compileName(value);
+    case 'path':
+    case 'in':
+      return compileDirectory(value, 'subtree');
+    case 'parent':
+      return compileDirectory(value, 'parent');
+    case 'depth': {
+      const match = value.match(/^([<>]=?)?(\d+)$/);
+      return match ? { sql: `files.depth ${match[1] || '='} ?`, params: [parseInt(match[2], 10)] } : null;
+    }
+    case 'sort':
+      // Orders results rather than filtering them; see getQuerySort
+      return null;
+    default:
+      return null;
+  }
+}
+
+function splitList(value: string): string[] {
+  return value.split(',').map(part => part.trim()).filter(part => part.length > 0);
+}
+
+function inCondition(column: string, values: unknown[]): CompiledCondition | null {
+  if (values.length === 0) return null;
+  if (values.length === 1) return { sql: `${column} = ?`, params: values };
+  return { sql: `${column} IN (${values.map(() => '?').join(', ')})`, params: values };
+}
+
+function boundsCondition(column: string, min?: number, max?: number): CompiledCondition | null {
+  if (min !== undefined && min === max) return { sql: `${column} = ?`, params: [min] };
+
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  if (min !== undefined) {
+    conditions.push(`${column} >= ?`);
+    params.push(min);
+  }
+  if (max !== undefined) {
+    conditions.push(`${column} <= ?`);
+    params.push(max);
+  }
+
+  return conditions.length > 0 ? { sql: `(${conditions.join(' AND ')})`, params } : null;
+}
+
+function dateCondition(column: string, range: DateRange): CompiledCondition | null {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+
+  if (range.from) {
+    conditions.push(`${column} >= ?`);
+    params.push(range.from.getTime());
+  }
+  if (range.to) {
+    conditions.push(`${column} < ?`);
+    params.push(range.to.getTime());
+  }
+
+  return conditions.length > 0 ? { sql: `(${conditions.join(' AND ')})`, params } : null;
+}
+
+/**
+ * Date operator values:
+ *
+ *   2025-03-14, 2025-03, 2025      that day, month or year
+ *   2025-01-01..2025-03-31         from the start of one to the end of the other;
+ *   2025-01..  ..2024              either end may be left open
+ *   <7d  >2y  >=6m  <=12h          relative to now: newer / older than (h d w m y)
+ *   7d                             same as <7d
+ *   <2025-01-01  >=2025-03         before / after a calendar period
+ *   today yesterday week month year
+ *   thisweek lastweek thismonth lastmonth thisyear lastyear
+ */
+function parseDateRange(value: string, now = new Date()): DateRange | null {
+  const normalized = value.trim().toLowerCase();
+
+  const range = normalized.match(/^(.*?)\.\.(.*)$/);
+  if (range) {
+    const [, start, end] = range;
+    const from = start ? resolveDatePeriod(start, now) : {};
+    const to = end ? resolveDatePeriod(end, now) : {};
+    if (!from || !to || (!start && !end)) return null;
+    return { from: from.from, to: to.to };
+  }
+
+  const comparison = normalized.match(/^([<>]=?)(.+)$/);
+  if (comparison) {
+    const [, operator, operand] = comparison;
+
+    // Relative spans compare ages: <7d is less than seven days old
+    const ago = subtractSpan(operand, now);
+    if (ago) return operator.startsWith('<') ? { from: ago } : { to: ago };
+
+    const period = resolveDatePeriod(operand, now);
+    if (!period) return null;
+    switch (operator) {
+      case '<': return { to: period.from };
+      case '<=': return { to: period.to };
+      case '>': return { from: period.to };
+      default: return { from: period.from };
+    }
+  }
+
+  const ago = subtractSpan(normalized, now);
+  if (ago) return { from: ago };
+
+  return resolveDatePeriod(normalized, now);
+}
+
+/** The point in time `span` (e.g. "7d", "2y") before `now`, or null if it is not a span. */
+function subtractSpan(span: string, now: Date): Date | null {
+  const match = span.match(/^(\d+)(h|d|w|mo?|y)$/);
+  if (!match) return null;
+
+  const amount = parseInt(match[1], 10);
+  const date = new Date(now);
+  switch (match[2]) {
+    case 'h': date.setHours(date.getHours() - amount); break;
+    case 'd': date.setDate(date.getDate() - amount); break;
+    case 'w': date.setDate(date.getDate() - amount * 7); break;
+    case 'y': date.setFullYear(date.getFullYear() - amount); break;
+    default: date.setMonth(date.getMonth() - amount);
+  }
+  return date;
+}
+
+/**
+ * A named period, relative span or ISO calendar date as a range. Spans are a
+ * single point so they can serve as either end of `a..b`.
+ */
+export function resolveDatePeriod(value: string, now: Date): DateRange | null {
+  const ago = subtractSpan(value, now);
+  if (ago) return { from: ago, to: ago };
+
+  const iso = value.match(/^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/);
+  if (iso) {
+    const year = parseInt(iso[1], 10);
+    if (iso[3]) {
+      const from = new Date(year, parseInt(iso[2], 10) - 1, parseInt(iso[3], 10));
+      return { from, to: new Date(from.getFullYear(), from.getMonth(), from.getDate() + 1) };
+    }
+    if (iso[2]) {
+      const month = parseInt(iso[2], 10) - 1;
+      return { from: new Date(year, month, 1), to: new Date(year, month + 1, 1) };
+    }
+    return { from: new Date(year, 0, 1), to: new Date(year + 1, 0, 1) };
+  }
+
+  const year = now.getFullYear();
+  const month = now.getMonth();
+  const startOfToday = new Date(year, month, now.getDate());
+  // Weeks start on Monday
+  const startOfWeek = new Date(year, month, now.getDate() - ((now.getDay() + 6) % 7));
+
+  switch (value) {
+    case 'today':
+      return { from: startOfToday };
+    case 'yesterday':
+      return { from: new Date(year, month, now.getDate() - 1), to: startOfToday };
+    case 'thisweek':
+      return { from: startOfWeek };
+    case 'lastweek':
+      return { from: new Date(startOfWeek.getFullYear(), startOfWeek.getMonth(), startOfWeek.getDate() - 7), to: startOfWeek };
+    case 'thismonth':
+      return { from: new Date(year, month, 1) };
+    case 'lastmonth':
+      return { from: new Date(year, month - 1, 1), to: new Date(year, month, 1) };
+    case 'thisyear':
+      return { from: new Date(year, 0, 1) };
+    case 'lastyear':
+      return { from: new Date(year - 1, 0, 1), to: new Date(year, 0, 1) };
+    // Rolling periods ending now
+    case 'week':
+      return { from: subtractSpan('7d', now)! };
+    case 'month':
+      return { from: subtractSpan('1m', now)! };
+    case 'year':
+      return { from: subtractSpan('1y', now)! };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Splits the query into the plain text terms that must all match at the top
+ * level, which the caller can hand to an FTS MATCH for bm25 ranking, and the
+ * rest of the tree, which is compiled to ordinary conditions.
+ */
+export function splitRankedTerms(node: QueryNode | null): { terms: string[]; rest: QueryNode | null } {
+  if (!node) return { terms: [], rest: null };
+
+  const children = node.type === 'and' ? node.children : [node];
+  const terms: string[] = [];
+  const rest: QueryNode[] = [];
+
+  for (const child of children) {
+    if (child.type === 'term' && !child.quoted) {
+      terms.push(child.value);
+    } else {
+      rest.push(child);
+    }
+  }
+
+  return {
+    terms,
+    rest: rest.length === 0 ? null : rest.length === 1 ? rest[0] : { type: 'and', children: rest }
+  };
+}
@@ -0,0 +1,117 @@
+import { EventEmitter } from 'events';
+import { randomUUID } from 'node:crypto';
+import { DatabaseService } from './database';
+import { SearchWorkerPool, SearchCancelledError } from './search-pool';
+import { SearchQueryError } from './query-compiler';
+import { FileWatcher } from './file-watcher';
+import { FileIndexer } from './indexer';
+import { SavedSearch, SavedSearchInput } from '../../src/types';
+
+// Watcher events come in bursts, so counts are refreshed once things settle
+const RECOUNT_DELAY_MS = 2000;
+
+const INDEX_CHANGE_EVENTS = ['fileAdded', 'fileChanged', 'fileRemoved', 'directoryAdded', 'directoryRemoved'];
+
+/**
+ * Saved searches with live counts of their matches. Counts run on the search
+ * pool and are refreshed when FileWatcher or FileIndexer change the index;
+ * every change to the list or its counts emits 'updated' with the whole list.
+ */
+export class SavedSearchService extends EventEmitter {
+  private db: DatabaseService;
+  private searchPool: SearchWorkerPool;
+  private counts = new Map<number, number>();
+  private recountTimer: NodeJS.Timeout | null = null;
+
+  constructor(database: DatabaseService, searchPool: SearchWorkerPool, fileWatcher: FileWatcher, indexer: FileIndexer) {
+    super();
+    this.db = database;
+    this.searchPool = searchPool;
+
+    for (const event of INDEX_CHANGE_EVENTS) {
+      fileWatcher.on(event, () => this.scheduleRecount());
+    }
+    indexer.on('complete', () => this.scheduleRecount());
+  }
+
+  async list(): Promise<SavedSearch[]> {
+    const searches = await this.db.getSavedSearches();
+    return searches.map(search => this.withCount(search));
+  }
+
+  async create(input: SavedSearchInput): Promise<SavedSearch> {
+    const saved = await this.db.createSavedSearch(input);
+    await this.recount([saved]);
+    await this.notify();
+    return this.withCount(saved);
+  }
+
+  async update(id: number, changes: Partial<SavedSearchInput>): Promise<SavedSearch> {
+    const saved = await this.db.updateSavedSearch(id, changes);
+    if (!saved) throw new Error('Saved search not found');
+
+    if (changes.query !== undefined || changes.filters !== undefined) {
+      await this.recount([saved]);
+    }
+    await this.notify();
+    return this.withCount(saved);
+  }
+
+  async delete(id: number): Promise<void> {
+    await this.db.deleteSavedSearch(id);
+    this.counts.delete(id);
+    await this.notify();
+  }
+
+  async refreshCounts(): Promise<void> {
+    await this.recount(await this.db.getSavedSearches());
+    await this.notify();
+  }
+
+  stop(): void {
+    if (this.recountTimer) {
+      clearTimeout(this.recountTimer);
+      this.recountTimer = null;
+    }
+  }
+
+  private scheduleRecount(): void {
+    if (this.recountTimer) return;
+
+    this.recountTimer = setTimeout(() => {
+      this.recountTimer = null;
+      this.refreshCounts().catch(error => {
+        console.warn('Failed to refresh saved search counts:', error);
+      });
+    }, RECOUNT_DELAY_MS);
+  }
+
+  // One at a time, so a search the user starts meanwhile is never queued
+  // behind all of them
+  private async recount(searches: SavedSearch[]): Promise<void> {
+    for (const search of searches) {
+      try {
+        const count = await this.searchPool.count({
+          requestId: randomUUID(),
+          query: search.query,
+          filters: search.filters
+        });
+        this.counts.set(search.id, count);
+      } catch (error) {
+        // A query that no longer parses just shows no count
+        if (!(error instanceof SearchCancelledError || error instanceof SearchQueryError)) {
+          console.warn(`Failed to count saved search "${search.name}":`, error);
+        }
+        this.counts.delete(search.id);
+      }
+    }
+  }
+
+  private withCount(search: SavedSearch): SavedSearch {
+    return { ...search, count: this.counts.get(search.id) };
+  }
+
+  private async notify(): Promise<void> {
+    this.emit('updated', await this.list());
+  }
+}
@@ -0,0 +1,124 @@
+import { Worker } from 'node:worker_threads';
+import { DirectoryScanResult, DirectoryScanTask } from './directory-scanner';
+
+export interface ScanWorkerData {
+  dbPath: string;
+}
+
+export interface ScanWorkerMessage {
+  id: number;
+  task: DirectoryScanTask;
+}
+
+export type ScanWorkerReply =
+  | { id: number; result: DirectoryScanResult }
+  | { id: number; error: string };
+
+interface ScanJob {
+  id: number;
+  task: DirectoryScanTask;
+  resolve: (result: DirectoryScanResult) => void;
+  reject: (error: Error) => void;
+}
+
+interface PooledWorker {
+  worker: Worker;
+  job: ScanJob | null;
+}
+
+/**
+ * Lists directories on worker threads, so the readdir and stat calls of a
+ * large scan never hold up the main process. Each worker compares what it
+ * finds with the index over its own read-only connection and posts back only
+ * the differences, for FileIndexer to write.
+ */
+export class ScanWorkerPool {
+  private workerPath: string;
+  private dbPath: string;
+  private size: number;
+  private workers: PooledWorker[] = [];
+  private queue: ScanJob[] = [];
+  private nextId = 0;
+  private closed = false;
+
+  constructor(workerPath: string, dbPath: string, size: number) {
+    this.workerPath = workerPath;
+    this.dbPath = dbPath;
+    this.size = size;
+  }
+
+  scan(task: DirectoryScanTask): Promise<DirectoryScanResult> {
+    if (this.closed) return Promise.reject(new Error('Scan pool closed'));
+
+    return new Promise((resolve, reject) => {
+      this.queue.push({ id: this.nextId++, task, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+
+    for (const job of this.queue.splice(0)) {
+      job.reject(new Error('Scan pool closed'));
+    }
+
+    const workers = this.workers.splice(0);
+    for (const slot of workers) {
+      slot.job?.reject(new Error('Scan pool closed'));
+      slot.job = null;
+    }
+    await Promise.all(workers.map(slot => slot.worker.terminate()));
+  }
+
+  private dispatch(): void {
+    while (!this.closed && this.queue.length > 0) {
+      let slot = this.workers.find(candidate => !candidate.job);
+      if (!slot) {
+        if (this.workers.length >= this.size) return;
+        slot = this.spawn();
+      }
+
+      const job = this.queue.shift()!;
+      slot.job = job;
+      const message: ScanWorkerMessage = { id: job.id, task: job.task };
+      slot.worker.postMessage(message);
+    }
+  }
+
+  private spawn(): PooledWorker {
+    const workerData: ScanWorkerData = { dbPath: this.dbPath };
+    const slot: PooledWorker = { worker: new Worker(this.workerPath, { workerData }), job: null };
+
+    slot.worker.on('message', (reply: ScanWorkerReply) => {
+      const job = slot.job;
+      if (!job || job.id !== reply.id) return;
+
+      slot.job = null;
+      if ('result' in reply) {
+        job.resolve(reply.result);
+      } else {
+        job.reject(new Error(reply.error));
+      }
+      this.dispatch();
+    });
+
+    slot.worker.on('error', (error) => {
+      console.error('Scan worker error:', error);
+      slot.job?.reject(error);
+      slot.job = null;
+    });
+
+    slot.worker.on('exit', (code) => {
+      if (!this.workers.includes(slot)) return; // Closed on purpose
+
+      this.workers = this.workers.filter(candidate => candidate !== slot);
+      slot.job?.reject(new Error(`Scan worker exited with code ${code}`));
+      slot.job = null;
+      this.dispatch();
+    });
+
+    this.workers.push(slot);
+    return slot;
+  }
+}
@@ -0,0 +1,199 @@
+import { Worker } from 'node:worker_threads';
+import os from 'node:os';
+import { IpcSearchRequest, SearchChunk, SearchResult, SearchStreamSummary } from '../../src/types';
+import { SearchQueryError } from './query-compiler';
+
+// Typing fires searches one after another and each new one cancels the last,
+// so a couple of workers is plenty and leaves cores for the indexer
+const MAX_POOL_SIZE = 2;
+
+export interface SearchWorkerData {
+  dbPath: string;
+}
+
+// Streamed searches send chunks before the result; counts return no items
+export type SearchWorkerMode = 'search' | 'stream' | 'count';
+
+export interface SearchWorkerMessage {
+  request: IpcSearchRequest;
+  mode: SearchWorkerMode;
+}
+
+export type SearchWorkerReply =
+  | SearchChunk
+  | { requestId: string; result: SearchResult }
+  | { requestId: string; error: string; queryError: boolean };
+
+export class SearchCancelledError extends Error {
+  constructor() {
+    super('Search cancelled');
+    this.name = 'SearchCancelledError';
+  }
+}
+
+interface SearchJob {
+  request: IpcSearchRequest;
+  mode: SearchWorkerMode;
+  onChunk?: (chunk: SearchChunk) => void;
+  resolve: (result: SearchResult) => void;
+  reject: (error: Error) => void;
+}
+
+interface PooledWorker {
+  worker: Worker;
+  job: SearchJob | null;
+}
+
+/**
+ * Runs searches on worker threads, each with its own read-only connection, so
+ * a slow scan never blocks the main process. better-sqlite3 cannot interrupt
+ * a running statement, so cancelling a search terminates the worker running
+ * it; the pool starts a fresh one when the next search arrives.
+ */
+export class SearchWorkerPool {
+  private workerPath: string;
+  private dbPath: string;
+  private size: number;
+  private workers: PooledWorker[] = [];
+  private queue: SearchJob[] = [];
+  private closed = false;
+
+  constructor(workerPath: string, dbPath: string, size = Math.max(1, Math.min(MAX_POOL_SIZE, os.cpus().length - 1))) {
+    this.workerPath = workerPath;
+    this.dbPath = dbPath;
+    this.size = size;
+  }
+
+  search(request: IpcSearchRequest): Promise<SearchResult> {
+    return this.enqueue(request, 'search');
+  }
+
+  /** Number of exact matches, without the typo-tolerant fallback. */
+  async count(request: IpcSearchRequest): Promise<number> {
+    const { totalCount } = await this.enqueue(request, 'count');
+    return totalCount;
+  }
+
+  /** Runs a search whose results arrive through `onChunk`, in seq order. */
+  async stream(request: IpcSearchRequest, onChunk: (chunk: SearchChunk) => void): Promise<SearchStreamSummary> {
+    let chunkCount = 0;
+    const { totalCount, query, executionTime, sort, facets, groups } = await this.enqueue(request, 'stream', chunk => {
+      chunkCount++;
+      onChunk(chunk);
+    });
+
+    return { requestId: request.requestId, totalCount, query, executionTime, chunkCount, sort, facets, groups };
+  }
+
+  /** Stops a queued or running search. Returns false if it already finished. */
+  cancel(requestId: string): boolean {
+    const queued = this.queue.findIndex(job => job.request.requestId === requestId);
+    if (queued !== -1) {
+      const [job] = this.queue.splice(queued, 1);
+      job.reject(new SearchCancelledError());
+      return true;
+    }
+
+    const slot = this.workers.find(candidate => candidate.job?.request.requestId === requestId);
+    if (!slot) return false;
+
+    const job = slot.job!;
+    this.retire(slot);
+    job.reject(new SearchCancelledError());
+    this.dispatch();
+    return true;
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+
+    for (const job of this.queue.splice(0)) {
+      job.reject(new SearchCancelledError());
+    }
+
+    const workers = this.workers.splice(0);
+    for (const slot of workers) {
+      slot.job?.reject(new SearchCancelledError());
+      slot.job = null;
+    }
+    await Promise.all(workers.map(slot => slot.worker.terminate()));
+  }
+
+  private enqueue(
+    request: IpcSearchRequest,
+    mode: SearchWorkerMode,
+    onChunk?: (chunk: SearchChunk) => void
+  ): Promise<SearchResult> {
+    if (this.closed) return Promise.reject(new SearchCancelledError());
+
+    return new Promise((resolve, reject) => {
+      this.queue.push({ request, mode, onChunk, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  private dispatch(): void {
+    while (!this.closed && this.queue.length > 0) {
+      let slot = this.workers.find(candidate => !candidate.job);
+      if (!slot) {
+        if (this.workers.length >= this.size) return;
+        slot = this.spawn();
+      }
+
+      const job = this.queue.shift()!;
+      slot.job = job;
+      const message: SearchWorkerMessage = { request: job.request, mode: job.mode };
+      slot.worker.postMessage(message);
+    }
+  }
+
+  private spawn(): PooledWorker {
+    const workerData: SearchWorkerData = { dbPath: this.dbPath };
+    const slot: PooledWorker = { worker: new Worker(this.workerPath, { workerData }), job: null };
+
+    slot.worker.on('message', (reply: SearchWorkerReply) => {
+      const job = slot.job;
+      if (!job || job.request.requestId !== reply.requestId) return;
+
+      if ('items' in reply) {
+        job.onChunk?.(reply);
+        return;
+      }
+
+      slot.job = null;
+      if ('result' in reply) {
+        job.resolve(reply.result);
+      } else {
+        // Rebuilt here because errors lose their class crossing threads
+        job.reject(reply.queryError ? new SearchQueryError(reply.error) : new Error(reply.error));
+      }
+      this.dispatch();
+    });
+
+    slot.worker.on('error', (error) => {
+      console.error('Search worker error:', error);
+      slot.job?.reject(error);
+      slot.job = null;
+    });
+
+    slot.worker.on('exit', (code) => {
+      if (!this.workers.includes(slot)) return; // Retired on purpose
+
+      this.workers = this.workers.filter(candidate => candidate !== slot);
+      slot.job?.reject(new Error(`Search worker exited with code ${code}`));
+      slot.job = null;
+      this.dispatch();
+    });
+
+    this.workers.push(slot);
+    return slot;
+  }
+
+  private retire(slot: PooledWorker): void {
+    this.workers = this.workers.filter(candidate => candidate !== slot);
+    slot.job = null;
+    slot.worker.terminate().catch(error => {
+      console.warn('Failed to stop search worker:', error);
+    });
+  }
+}
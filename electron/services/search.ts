@@ -1,57 +1,86 @@
-import { DatabaseService } from './database';
-import { FileItem, SearchFilters, SearchResult, FileType } from '../../src/types';
-import Fuse from 'fuse.js';
+import { DatabaseService, FileSearchOptions } from './database';
+import { FileItem, FileUsageKind, GroupField, SearchFacets, SearchFilters, SearchGroup, SearchResult, SearchSort, UsageSettings } from '../../src/types';
+import { parseQuery, getTextTerms, getQuerySort, defaultSortDirection } from '../../src/lib/query-parser';
+import { SearchQueryError, splitRankedTerms } from './query-compiler';
+import { fuzzyMatch } from './fuzzy-matcher';
+import { getGroupKey } from '../../src/lib/result-groups';
+
+const USAGE_LEARNING_SETTING = 'usage.learningEnabled';
+
+// Trigram candidates scored by edit distance per fuzzy search
+const FUZZY_CANDIDATE_LIMIT = 2000;
+
+// Results per chunk when streaming; the first chunk fills the first screen
+const STREAM_CHUNK_SIZE = 50;
+
+export interface SearchOptions {
+  sort?: Partial<SearchSort>;
+  // Facet counts cost a few extra scans, so only the first page asks for them
+  includeFacets?: boolean;
+  groupBy?: GroupField;
+}
 
+/**
+ * Runs searches against the index. Fuzzy matching reads the same SQLite
+ * trigram index as exact search, which FileWatcher keeps current row by row,
+ * so there is no separate in-memory index to load or refresh.
+ */
 export class SearchService {
   private db: DatabaseService;
-  private fuseIndex: Fuse<FileItem> | null = null;
-  private lastIndexUpdate = 0;
-  private indexUpdateThreshold = 5 * 60 * 1000; // 5 minutes
 
   constructor(database: DatabaseService) {
     this.db = database;
   }
 
-  async search(query: string, filters: SearchFilters = {}, limit = 100, offset = 0): Promise<SearchResult> {
+  async search(
+    query: string,
+    filters: SearchFilters = {},
+    limit = 100,
+    offset = 0,
+    options: SearchOptions = {}
+  ): Promise<SearchResult> {
     const startTime = Date.now();
     
     try {
-      // Parse search operators from query
-      const { cleanQuery, operators } = this.parseSearchOperators(query);
-      
-      // Combine filters with operators
-      const combinedFilters = this.combineFilters(filters, operators);
-      
-      let results: FileItem[];
-      
-      if (cleanQuery.trim() === '') {
-        // If no text query, just apply filters
-        results = await this.searchWithFilters(combinedFilters, limit, offset);
-      } else if (this.shouldUseFuzzySearch(cleanQuery)) {
-        // Use fuzzy search for complex queries
-        results = await this.fuzzySearch(cleanQuery, combinedFilters, limit, offset);
-      } else {
-        // Use database FTS for simple queries
-        results = await this.databaseSearch(cleanQuery, combinedFilters, limit, offset);
+      const parsed = parseQuery(query);
+      const text = getTextTerms(parsed).join(' ');
+      const sort = this.resolveSort(getQuerySort(parsed) ?? options.sort ?? {});
+
+      // Operators, filters, sorting, relevance, pagination and the total are
+      // resolved in SQL, so every page is cut from one order over all results
+      const { groupBy } = options;
+      const frecency = this.isUsageLearningEnabled();
+      let { items, totalCount } = await this.databaseSearch(query, filters, limit, offset, { sort, groupBy, frecency });
+      const exactMatches = totalCount;
+      let groups: SearchGroup[] | undefined;
+
+      if (totalCount === 0 && text) {
+        // Nothing matched exactly, so allow typos in the words
+        ({ items, totalCount, groups } = await this.fuzzySearch(query, filters, limit, offset, sort, groupBy));
+      } else if (groupBy) {
+        groups = await this.db.getGroups(query, groupBy, groupKeys(items, groupBy), { filters });
       }
-      
-      // Apply additional filtering and sorting
-      results = this.applyFilters(results, combinedFilters);
-      results = this.sortResults(results, cleanQuery);
-      
-      // Apply pagination
-      const paginatedResults = results.slice(offset, offset + limit);
-      
+
+      // Facets count exact matches, so there are none to show for typo results
+      const facets = options.includeFacets && exactMatches > 0
+        ? await this.db.getFacets(query, { filters })
+        : undefined;
+
       const executionTime = Date.now() - startTime;
-      
+
       return {
-        items: paginatedResults,
-        totalCount: results.length,
+        items,
+        totalCount,
         query: query,
-        executionTime
+        executionTime,
+        sort,
+        facets,
+        groups
       };
     } catch (error) {
       console.error('Search error:', error);
+      // Problems with the query itself are the user's to fix, so report them
+      if (error instanceof SearchQueryError) throw error;
       return {
         items: [],
         totalCount: 0,
@@ -61,289 +90,255 @@ export class SearchService {
     }
   }
 
-  private parseSearchOperators(query: string): { cleanQuery: string; operators: Record<string, any> } {
-    const operators: Record<string, any> = {};
-    let cleanQuery = query;
-
-    // Extract file extension operator: ext:pdf
-    const extMatch = query.match(/ext:(\w+)/gi);
-    if (extMatch) {
-      operators.extensions = extMatch.map(match => '.' + match.split(':')[1].toLowerCase());
-      cleanQuery = cleanQuery.replace(/ext:\w+/gi, '').trim();
-    }
+  /**
+   * Like search, but hands results to `onChunk` as SQLite produces them so the
+   * first screenful shows before a broad query has finished, in the same order
+   * search returns them. The returned result has the total and timing; its
+   * items were already delivered through `onChunk`, so it has none.
+   */
+  async streamSearch(
+    query: string,
+    filters: SearchFilters = {},
+    limit = 100,
+    offset = 0,
+    options: SearchOptions,
+    onChunk: (items: FileItem[]) => void
+  ): Promise<SearchResult> {
+    const startTime = Date.now();
 
-    // Extract size operator: size:>100MB, size:<1GB
-    const sizeMatch = query.match(/size:([><]?)(\d+)(kb|mb|gb)?/gi);
-    if (sizeMatch) {
-      sizeMatch.forEach(match => {
-        const parts = match.match(/size:([><]?)(\d+)(kb|mb|gb)?/i);
-        if (parts) {
-          const operator = parts[1] || '=';
-          const value = parseInt(parts[2]);
-          const unit = (parts[3] || 'b').toLowerCase();
-          
-          let bytes = value;
-          switch (unit) {
-            case 'kb': bytes *= 1024; break;
-            case 'mb': bytes *= 1024 * 1024; break;
-            case 'gb': bytes *= 1024 * 1024 * 1024; break;
-          }
-          
-          if (operator === '>') {
-            operators.sizeMin = bytes;
-          } else if (operator === '<') {
-            operators.sizeMax = bytes;
-          } else {
-            operators.sizeMin = bytes * 0.9;
-            operators.sizeMax = bytes * 1.1;
-          }
+    try {
+      const parsed = parseQuery(query);
+      const text = getTextTerms(parsed).join(' ');
+      const sort = this.resolveSort(getQuerySort(parsed) ?? options.sort ?? {});
+      const { groupBy } = options;
+      const frecency = this.isUsageLearningEnabled();
+      const deliveredKeys = new Set<string>();
+      let delivered = 0;
+      let facets: SearchFacets | undefined;
+      let groups: SearchGroup[] | undefined;
+
+      const deliver = (items: FileItem[]) => {
+        if (groupBy) {
+          groupKeys(items, groupBy).forEach(key => deliveredKeys.add(key));
         }
-      });
-      cleanQuery = cleanQuery.replace(/size:[><]?\d+(kb|mb|gb)?/gi, '').trim();
-    }
+        onChunk(items);
+        delivered += items.length;
+      };
 
-    // Extract date operator: date:today, date:week, date:month
-    const dateMatch = query.match(/date:(today|yesterday|week|month|year)/gi);
-    if (dateMatch) {
-      const dateType = dateMatch[0].split(':')[1].toLowerCase();
-      const now = new Date();
-      
-      switch (dateType) {
-        case 'today':
-          operators.dateModifiedFrom = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-          break;
-        case 'yesterday':
-          const yesterday = new Date(now);
-          yesterday.setDate(yesterday.getDate() - 1);
-          operators.dateModifiedFrom = new Date(yesterday.getFullYear(), yesterday.getMonth(), yesterday.getDate());
-          operators.dateModifiedTo = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-          break;
-        case 'week':
-          const weekAgo = new Date(now);
-          weekAgo.setDate(weekAgo.getDate() - 7);
-          operators.dateModifiedFrom = weekAgo;
-          break;
-        case 'month':
-          const monthAgo = new Date(now);
-          monthAgo.setMonth(monthAgo.getMonth() - 1);
-          operators.dateModifiedFrom = monthAgo;
-          break;
-        case 'year':
-          const yearAgo = new Date(now);
-          yearAgo.setFullYear(yearAgo.getFullYear() - 1);
-          operators.dateModifiedFrom = yearAgo;
-          break;
+      let chunk: FileItem[] = [];
+      for (const item of this.db.iterateFiles(query, limit, offset, { filters, sort, groupBy, frecency })) {
+        chunk.push(item);
+        if (chunk.length === STREAM_CHUNK_SIZE) {
+          deliver(chunk);
+          chunk = [];
+        }
       }
-      cleanQuery = cleanQuery.replace(/date:(today|yesterday|week|month|year)/gi, '').trim();
-    }
-
-    // Extract type operator: type:image, type:document
-    const typeMatch = query.match(/type:(\w+)/gi);
-    if (typeMatch) {
-      operators.fileTypes = typeMatch.map(match => {
-        const type = match.split(':')[1].toLowerCase();
-        switch (type) {
-          case 'doc':
-          case 'document':
-          case 'documents':
-            return FileType.DOCUMENT;
-          case 'img':
-          case 'image':
-          case 'images':
-            return FileType.IMAGE;
-          case 'vid':
-          case 'video':
-          case 'videos':
-            return FileType.VIDEO;
-          case 'audio':
-          case 'music':
-            return FileType.AUDIO;
-          case 'archive':
-          case 'zip':
-            return FileType.ARCHIVE;
-          case 'code':
-          case 'source':
-            return FileType.CODE;
-          case 'folder':
-          case 'directory':
-          case 'dir':
-            return FileType.DIRECTORY;
-          default:
-            return type;
+      if (chunk.length > 0) deliver(chunk);
+
+      // A short page is the end of the results, so only a full one needs counting
+      let totalCount = delivered < limit && (delivered > 0 || offset === 0)
+        ? offset + delivered
+        : await this.db.countFiles(query, { filters });
+
+      if (totalCount === 0 && text) {
+        // Same typo-tolerant fallback as search, already in order
+        const fuzzy = await this.fuzzySearch(query, filters, limit, offset, sort, groupBy);
+        for (let i = 0; i < fuzzy.items.length; i += STREAM_CHUNK_SIZE) {
+          onChunk(fuzzy.items.slice(i, i + STREAM_CHUNK_SIZE));
         }
-      });
-      cleanQuery = cleanQuery.replace(/type:\w+/gi, '').trim();
-    }
+        totalCount = fuzzy.totalCount;
+        groups = fuzzy.groups;
+      } else {
+        if (options.includeFacets && totalCount > 0) {
+          facets = await this.db.getFacets(query, { filters });
+        }
+        if (groupBy) {
+          groups = await this.db.getGroups(query, groupBy, Array.from(deliveredKeys), { filters });
+        }
+      }
 
-    return { cleanQuery, operators };
+      return {
+        items: [],
+        totalCount,
+        query: query,
+        executionTime: Date.now() - startTime,
+        sort,
+        facets,
+        groups
+      };
+    } catch (error) {
+      // Some results may already be on screen, so always report the failure
+      console.error('Search error:', error);
+      throw error;
+    }
   }
 
-  private combineFilters(filters: SearchFilters, operators: Record<string, any>): SearchFilters {
+  /** Only the number of exact matches, for smart folder counts. */
+  async count(query: string, filters: SearchFilters = {}): Promise<SearchResult> {
+    const startTime = Date.now();
+    const totalCount = await this.db.countFiles(query, { filters });
+
     return {
-      ...filters,
-      extensions: [...(filters.extensions || []), ...(operators.extensions || [])],
-      fileTypes: [...(filters.fileTypes || []), ...(operators.fileTypes || [])],
-      sizeMin: Math.max(filters.sizeMin || 0, operators.sizeMin || 0),
-      sizeMax: Math.min(filters.sizeMax || Infinity, operators.sizeMax || Infinity),
-      dateModifiedFrom: operators.dateModifiedFrom || filters.dateModifiedFrom,
-      dateModifiedTo: operators.dateModifiedTo || filters.dateModifiedTo,
-      includeDirectories: filters.includeDirectories
+      items: [],
+      totalCount,
+      query: query,
+      executionTime: Date.now() - startTime
     };
   }
 
-  private shouldUseFuzzySearch(query: string): boolean {
-    // Use fuzzy search for queries with typos or complex patterns
-    return query.length > 3 && (
-      query.includes('*') || 
-      query.includes('?') || 
-      /[^a-zA-Z0-9\s\-_.]/.test(query)
-    );
-  }
-
-  private async databaseSearch(query: string, filters: SearchFilters, limit: number, offset: number): Promise<FileItem[]> {
-    return await this.db.searchFiles(query, limit * 2, offset); // Get more results for filtering
-  }
-
-  private async searchWithFilters(filters: SearchFilters, limit: number, offset: number): Promise<FileItem[]> {
-    // This would need to be implemented in the database service
-    // For now, get all files and filter in memory (not efficient for large datasets)
-    return await this.db.searchFiles('', limit * 2, offset);
+  private async databaseSearch(
+    query: string,
+    filters: SearchFilters,
+    limit: number,
+    offset: number,
+    options: Omit<FileSearchOptions, 'filters'>
+  ): Promise<{ items: FileItem[]; totalCount: number }> {
+    const [items, totalCount] = await Promise.all([
+      this.db.searchFiles(query, limit, offset, { ...options, filters }),
+      this.db.countFiles(query, { filters })
+    ]);
+
+    return { items, totalCount };
   }
 
-  private async fuzzySearch(query: string, filters: SearchFilters, limit: number, offset: number): Promise<FileItem[]> {
-    // Update Fuse index if needed
-    await this.updateFuseIndex();
-    
-    if (!this.fuseIndex) {
-      return [];
-    }
-
-    const results = this.fuseIndex.search(query, { limit: limit * 2 });
-    return results.map(result => result.item);
-  }
-
-  private async updateFuseIndex(): Promise<void> {
-    const now = Date.now();
-    if (this.fuseIndex && (now - this.lastIndexUpdate) < this.indexUpdateThreshold) {
-      return; // Index is still fresh
-    }
-
-    try {
-      // Get all files from database
-      const allFiles = await this.db.searchFiles('', 10000, 0); // Limit to prevent memory issues
-      
-      const fuseOptions = {
-        keys: [
-          { name: 'name', weight: 0.7 },
-          { name: 'path', weight: 0.2 },
-          { name: 'extension', weight: 0.1 }
-        ],
-        threshold: 0.4, // Lower = more strict matching
-        distance: 100,
-        includeScore: true,
-        includeMatches: true
-      };
+  /**
+   * Matches the query's plain words against file names allowing a few typos
+   * each, while its operators and the filters still apply exactly. Results
+   * are ordered by total edit distance, then by how early the match starts,
+   * unless another sort was asked for.
+   */
+  private async fuzzySearch(
+    query: string,
+    filters: SearchFilters,
+    limit: number,
+    offset: number,
+    sort: SearchSort,
+    groupBy?: GroupField
+  ): Promise<{ items: FileItem[]; totalCount: number; groups?: SearchGroup[] }> {
+    const terms = splitRankedTerms(parseQuery(query)).terms.filter(term => term.length >= 3);
+    if (terms.length === 0) return { items: [], totalCount: 0 };
+
+    const candidates = await this.db.findFuzzyCandidates(query, FUZZY_CANDIDATE_LIMIT, { filters });
+    const matches: Array<{ file: FileItem; distance: number; start: number }> = [];
+
+    for (const file of candidates) {
+      let distance = 0;
+      let start = 0;
+      const matchesAll = terms.every(term => {
+        const match = fuzzyMatch(term, file.name);
+        if (!match) return false;
+        distance += match.distance;
+        start += match.start;
+        return true;
+      });
 
-      this.fuseIndex = new Fuse(allFiles, fuseOptions);
-      this.lastIndexUpdate = now;
-    } catch (error) {
-      console.error('Failed to update Fuse index:', error);
+      if (matchesAll) matches.push({ file, distance, start });
     }
-  }
 
-  private applyFilters(files: FileItem[], filters: SearchFilters): FileItem[] {
-    return files.filter(file => {
-      // File type filter
-      if (filters.fileTypes && filters.fileTypes.length > 0) {
-        if (!filters.fileTypes.includes(file.type)) {
-          return false;
-        }
-      }
-
-      // Extension filter
-      if (filters.extensions && filters.extensions.length > 0) {
-        if (!filters.extensions.includes(file.extension)) {
-          return false;
-        }
-      }
-
-      // Size filter
-      if (filters.sizeMin && file.size < filters.sizeMin) {
-        return false;
-      }
-      if (filters.sizeMax && file.size > filters.sizeMax) {
-        return false;
-      }
+    const groupOf = (file: FileItem) => (groupBy ? getGroupKey(file, groupBy) : '');
+    matches.sort((a, b) =>
+      compareKeys(groupOf(a.file), groupOf(b.file)) ||
+      (sort.sortBy === 'relevance' ? 0 : compareFiles(a.file, b.file, sort)) ||
+      a.distance - b.distance ||
+      a.start - b.start ||
+      a.file.name.length - b.file.name.length
+    );
 
-      // Date filter
-      if (filters.dateModifiedFrom && file.dateModified < filters.dateModifiedFrom) {
-        return false;
-      }
-      if (filters.dateModifiedTo && file.dateModified > filters.dateModifiedTo) {
-        return false;
-      }
+    const items = matches.slice(offset, offset + limit).map(match => match.file);
+    if (!groupBy) return { items, totalCount: matches.length };
 
-      // Directory filter
-      if (filters.includeDirectories === false && file.isDirectory) {
-        return false;
+    // Every match is at hand, so groups are totalled here rather than in SQL
+    const groups = new Map(groupKeys(items, groupBy).map(key => [key, { key, count: 0, size: 0 }]));
+    for (const { file } of matches) {
+      const group = groups.get(groupOf(file));
+      if (group) {
+        group.count++;
+        group.size += file.size;
       }
+    }
 
-      return true;
-    });
+    return { items, totalCount: matches.length, groups: Array.from(groups.values()) };
   }
 
-  private sortResults(files: FileItem[], query: string): FileItem[] {
-    if (!query.trim()) {
-      // Sort by date modified (newest first) when no query
-      return files.sort((a, b) => b.dateModified.getTime() - a.dateModified.getTime());
-    }
+  /** Fills in the default field and direction; relevance unless asked otherwise. */
+  private resolveSort({ sortBy = 'relevance', sortDirection }: Partial<SearchSort>): SearchSort {
+    return { sortBy, sortDirection: sortDirection ?? defaultSortDirection(sortBy) };
+  }
 
-    // Sort by relevance when there's a query
-    return files.sort((a, b) => {
-      const aScore = this.calculateRelevanceScore(a, query);
-      const bScore = this.calculateRelevanceScore(b, query);
-      return bScore - aScore;
-    });
+  /** Learns from opened and revealed files, unless the user turned that off. */
+  async recordUsage(fullPath: string, kind: FileUsageKind): Promise<void> {
+    if (!this.isUsageLearningEnabled()) return;
+    await this.db.recordUsage(fullPath, kind);
   }
 
-  private calculateRelevanceScore(file: FileItem, query: string): number {
-    const queryLower = query.toLowerCase();
-    const nameLower = file.name.toLowerCase();
-    const pathLower = file.path.toLowerCase();
+  async getUsageSettings(): Promise<UsageSettings> {
+    return {
+      learningEnabled: this.isUsageLearningEnabled(),
+      trackedFiles: await this.db.getUsageCount()
+    };
+  }
 
-    let score = 0;
+  setUsageLearningEnabled(enabled: boolean): void {
+    this.db.setSetting(USAGE_LEARNING_SETTING, String(enabled));
+  }
 
-    // Exact name match gets highest score
-    if (nameLower === queryLower) {
-      score += 100;
-    }
-    // Name starts with query
-    else if (nameLower.startsWith(queryLower)) {
-      score += 80;
-    }
-    // Name contains query
-    else if (nameLower.includes(queryLower)) {
-      score += 60;
-    }
+  async clearUsage(): Promise<void> {
+    await this.db.clearUsage();
+  }
 
-    // Path relevance
-    if (pathLower.includes(queryLower)) {
-      score += 20;
-    }
+  private isUsageLearningEnabled(): boolean {
+    return this.db.getSetting(USAGE_LEARNING_SETTING) !== 'false';
+  }
+}
 
-    // Boost recent files
-    const daysSinceModified = (Date.now() - file.dateModified.getTime()) / (1000 * 60 * 60 * 24);
-    if (daysSinceModified < 7) {
-      score += 10;
-    } else if (daysSinceModified < 30) {
-      score += 5;
-    }
+// Distinct keys of the items' groups, in order of first appearance
+function groupKeys(items: FileItem[], groupBy: GroupField): string[] {
+  return Array.from(new Set(items.map(item => getGroupKey(item, groupBy))));
+}
 
-    // Boost smaller files (usually more relevant)
-    if (file.size < 1024 * 1024) { // < 1MB
-      score += 5;
-    }
+// Orders group keys as GROUP_COLUMNS does in SQL: case-insensitively first, as
+// COLLATE NOCASE folds only ASCII letters, then by the exact key
+function compareKeys(a: string, b: string): number {
+  const binary = (x: string, y: string) => (x < y ? -1 : x > y ? 1 : 0);
+  const fold = (key: string) => key.replace(/[A-Z]/g, letter => letter.toLowerCase());
+  return binary(fold(a), fold(b)) || binary(a, b);
+}
 
-    return score;
+/**
+ * The in-memory counterpart of DatabaseService's ORDER BY for explicit sorts,
+ * for fuzzy results, which are matched outside SQL.
+ */
+function compareFiles(a: FileItem, b: FileItem, { sortBy, sortDirection }: SearchSort): number {
+  const text = (x: string, y: string) => x.localeCompare(y, undefined, { sensitivity: 'base' });
+  const time = (x?: Date, y?: Date) => (x?.getTime() ?? 0) - (y?.getTime() ?? 0);
+  const parent = (file: FileItem) => file.fullPath.slice(0, file.fullPath.length - file.name.length);
+
+  let order: number;
+  switch (sortBy) {
+    case 'size':
+      order = a.size - b.size;
+      break;
+    case 'dateModified':
+      order = time(a.dateModified, b.dateModified);
+      break;
+    case 'dateCreated':
+      order = time(a.dateCreated, b.dateCreated);
+      break;
+    case 'dateAccessed':
+      // Never-accessed files go last either way, like NULLS LAST
+      if (!a.dateAccessed !== !b.dateAccessed) return a.dateAccessed ? -1 : 1;
+      order = time(a.dateAccessed, b.dateAccessed);
+      break;
+    case 'path':
+      order = text(parent(a), parent(b));
+      break;
+    case 'type':
+      order = text(a.type, b.type) || text(a.extension, b.extension);
+      break;
+    default:
+      order = 0;
   }
+
+  order = order || text(a.name, b.name);
+  return sortDirection === 'asc' ? order : -order;
 }
@@ -3,6 +3,8 @@ import { Search, Settings, HardDrive, Loader2 } from 'lucide-react';
 import { SearchInput } from '@/components/search/SearchInput';
 import { SearchResults } from '@/components/search/SearchResults';
 import { SearchFilters } from '@/components/search/SearchFilters';
+import { FacetSidebar } from '@/components/search/FacetSidebar';
+import { SavedSearches } from '@/components/search/SavedSearches';
 import { DragDropZone } from '@/components/search/DragDropZone';
 import { SettingsPanel } from '@/components/settings/SettingsPanel';
 import { OnboardingWizard } from '@/components/onboarding/OnboardingWizard';
@@ -14,8 +16,9 @@ import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { useFileSearch } from '@/hooks/useFileSearch';
 import { useGlobalHotkeys } from '@/hooks/useHotkeys';
-import { useSearchHistory } from '@/hooks/useSearchHistory';
+import { useSavedSearches } from '@/hooks/useSavedSearches';
 import { useTheme } from '@/hooks/useTheme';
+import { SavedSearch, IndexingProgress, IndexingCheckpointSummary } from '@/types';
 import { cn } from '@/lib/utils';
 
 function App() {
@@ -23,9 +26,12 @@ function App() {
     searchQuery,
     setSearchQuery,
     searchResults,
+    facets,
     isLoading,
+    isStreaming,
     error,
     filters,
+    sort,
     currentPage,
     totalPages,
     hasNextPage,
@@ -33,6 +39,9 @@ function App() {
     itemsPerPage,
     search,
     updateFilters,
+    updateSort,
+    updateGroupBy,
+    runSavedSearch,
     openFile,
     revealFile,
     goToPage,
@@ -40,7 +49,10 @@ function App() {
     prevPage
   } = useFileSearch();
 
-  const { addToHistory } = useSearchHistory();
+  const { savedSearches, saveSearch, updateSavedSearch, deleteSavedSearch } = useSavedSearches();
+  const [runSavedSearchId, setRunSavedSearchId] = useState<number | null>(null);
+  // Highlighted until the query is edited
+  const activeSavedSearch = savedSearches.find(saved => saved.id === runSavedSearchId && saved.query === searchQuery);
   const { resolvedTheme } = useTheme();
 
   // Enable global hotkeys
@@ -49,9 +61,12 @@ function App() {
   const [isIndexing, setIsIndexing] = useState(false);
   const [fileCount, setFileCount] = useState(0);
   const [indexingProgress, setIndexingProgress] = useState(0);
+  const [isResuming, setIsResuming] = useState(false);
+  const [checkpoint, setCheckpoint] = useState<IndexingCheckpointSummary | null>(null);
   const [showSettings, setShowSettings] = useState(false);
   const [showOnboarding, setShowOnboarding] = useState(false);
   const [isFirstRun, setIsFirstRun] = useState(false);
+  const [databaseError, setDatabaseError] = useState<string | null>(null);
 
   const { notifications, addNotification, removeNotification } = useNotifications();
 
@@ -77,14 +92,47 @@ function App() {
       }
     };
 
+    const checkDatabaseStatus = async () => {
+      try {
+        const response = await window.fileSearchAPI.getDatabaseStatus();
+        const status = response.data;
+        if (!response.success) {
+          setDatabaseError(response.error || 'Database unavailable');
+        } else if (status?.error) {
+          setDatabaseError(status.backupPath
+            ? `${status.error} A backup of your index was saved to ${status.backupPath}.`
+            : status.error);
+        }
+      } catch (err) {
+        console.error('Failed to get database status:', err);
+      }
+    };
+
+    // An indexing run interrupted last time is offered for resuming
+    const checkIndexingCheckpoint = async () => {
+      try {
+        const response = await window.fileSearchAPI.getIndexingProgress();
+        const progress: IndexingProgress | undefined = response.data;
+        if (response.success && progress?.checkpoint && !progress.isIndexing) {
+          setCheckpoint(progress.checkpoint);
+        }
+      } catch (err) {
+        console.error('Failed to get indexing progress:', err);
+      }
+    };
+
     checkFileCount();
+    checkDatabaseStatus();
+    checkIndexingCheckpoint();
   }, []);
 
   // Listen for indexing events
   useEffect(() => {
-    const handleIndexingProgress = (progress: any) => {
+    const handleIndexingProgress = (progress: IndexingProgress) => {
       setIsIndexing(progress.isIndexing);
       setIndexingProgress(progress.progress);
+      setIsResuming(progress.resumed === true);
+      setCheckpoint(progress.checkpoint ?? null);
       if (progress.filesProcessed) {
         setFileCount(progress.filesProcessed);
       }
@@ -155,6 +203,12 @@ function App() {
       handleStartIndexing();
     };
 
+    // A search pinned to the tray menu was picked
+    const handleRunSavedSearch = (saved: SavedSearch) => {
+      setRunSavedSearchId(saved.id);
+      runSavedSearch(saved);
+    };
+
     const handleShowTrayNotification = () => {
       addNotification({
         type: 'info',
@@ -170,6 +224,7 @@ function App() {
     window.windowAPI?.onAutoStartIndexing(handleAutoStartIndexing);
     window.windowAPI?.onStartIndexingFromTray(handleStartIndexingFromTray);
     window.windowAPI?.onShowTrayNotification(handleShowTrayNotification);
+    window.windowAPI?.onRunSavedSearch(handleRunSavedSearch);
 
     return () => {
       // Clean up all listeners
@@ -181,8 +236,30 @@ function App() {
       window.fileSearchAPI.removeAllListeners('auto-start-indexing');
       window.fileSearchAPI.removeAllListeners('start-indexing-from-tray');
       window.fileSearchAPI.removeAllListeners('show-tray-notification');
+      window.fileSearchAPI.removeAllListeners('run-saved-search');
     };
-  }, [fileCount, addNotification]);
+  }, [fileCount, addNotification, runSavedSearch]);
+
+  const handleResumeIndexing = async () => {
+    try {
+      setIsIndexing(true);
+      setCheckpoint(null);
+
+      const response = await window.fileSearchAPI.resumeIndexing();
+      if (!response.success) {
+        setIsIndexing(false);
+        addNotification({
+          type: 'error',
+          title: 'Could not resume indexing',
+          message: response.error || 'Unknown error occurred',
+          duration: 6000
+        });
+      }
+    } catch (err) {
+      console.error('Failed to resume indexing:', err);
+      setIsIndexing(false);
+    }
+  };
 
   const handleStartIndexing = async (customPaths?: string[]) => {
     // Prevent multiple indexing operations
@@ -330,7 +407,7 @@ function App() {
                 <div className="flex items-center gap-2">
                   <Badge variant="outline" className="text-xs">
                     <Loader2 className="h-3 w-3 mr-1 animate-spin" />
-                    Indexing {indexingProgress.toFixed(0)}%
+                    {isResuming ? 'Resuming' : 'Indexing'} {indexingProgress.toFixed(0)}%
                   </Badge>
                   <Badge variant="secondary" className="text-xs">
                     {fileCount.toLocaleString()} files
@@ -379,6 +456,35 @@ function App() {
               onFiltersChange={updateFilters}
             />
 
+            {databaseError && (
+              <Card className="p-4 border-destructive bg-destructive/5">
+                <p className="text-sm font-medium text-destructive">Database error</p>
+                <p className="text-sm text-destructive">{databaseError}</p>
+              </Card>
+            )}
+
+            {checkpoint && !isIndexing && (
+              <Card className="p-4 flex items-center justify-between gap-4">
+                <div>
+                  <p className="text-sm font-medium">Indexing was interrupted</p>
+                  <p className="text-sm text-muted-foreground">
+                    {checkpoint.filesProcessed.toLocaleString()} files scanned and{' '}
+                    {checkpoint.completedPaths.length} of {checkpoint.paths.length} locations finished
+                    before it stopped on {new Date(checkpoint.updatedAt).toLocaleString()}.
+                    Resuming picks up from there.
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Button variant="ghost" size="sm" onClick={() => setCheckpoint(null)}>
+                    Dismiss
+                  </Button>
+                  <Button size="sm" onClick={handleResumeIndexing}>
+                    Resume
+                  </Button>
+                </div>
+              </Card>
+            )}
+
             {error && (
               <Card className="p-4 border-destructive bg-destructive/5">
                 <p className="text-sm text-destructive">{error}</p>
@@ -387,26 +493,56 @@ function App() {
           </div>
 
           {/* Results Section */}
-          <div className={cn(
-            "rounded-lg border shadow-sm min-h-[500px] transition-all duration-200",
-            resolvedTheme === 'dark'
-              ? "bg-background/60 backdrop-blur-sm"
-              : "bg-background/80 backdrop-blur-sm"
-          )}>
-            <SearchResults
-              results={searchResults}
-              isLoading={isLoading}
-              onOpenFile={openFile}
-              onRevealFile={revealFile}
-              currentPage={currentPage}
-              totalPages={totalPages}
-              hasNextPage={hasNextPage}
-              hasPrevPage={hasPrevPage}
-              itemsPerPage={itemsPerPage}
-              onPageChange={goToPage}
-              onNextPage={nextPage}
-              onPrevPage={prevPage}
-            />
+          <div className="flex gap-4 items-start">
+            <div className="w-56 shrink-0 space-y-6">
+              <SavedSearches
+                searches={savedSearches}
+                activeId={activeSavedSearch?.id}
+                onRun={(saved) => {
+                  setRunSavedSearchId(saved.id);
+                  runSavedSearch(saved);
+                }}
+                onSaveCurrent={searchQuery.trim() || Object.keys(filters).length > 0
+                  ? async (name) => {
+                    const saved = await saveSearch({ name, query: searchQuery, filters, sort: sort ?? undefined });
+                    if (saved) setRunSavedSearchId(saved.id);
+                  }
+                  : undefined}
+                onTogglePin={(saved) => updateSavedSearch(saved.id, { pinned: !saved.pinned })}
+                onDelete={(saved) => deleteSavedSearch(saved.id)}
+              />
+              {searchResults && (
+                <FacetSidebar
+                  facets={facets}
+                  filters={filters}
+                  onFiltersChange={updateFilters}
+                />
+              )}
+            </div>
+            <div className={cn(
+              "flex-1 min-w-0 rounded-lg border shadow-sm min-h-[500px] transition-all duration-200",
+              resolvedTheme === 'dark'
+                ? "bg-background/60 backdrop-blur-sm"
+                : "bg-background/80 backdrop-blur-sm"
+            )}>
+              <SearchResults
+                results={searchResults}
+                isLoading={isLoading}
+                isStreaming={isStreaming}
+                onOpenFile={openFile}
+                onRevealFile={revealFile}
+                onSortChange={updateSort}
+                onGroupByChange={updateGroupBy}
+                currentPage={currentPage}
+                totalPages={totalPages}
+                hasNextPage={hasNextPage}
+                hasPrevPage={hasPrevPage}
+                itemsPerPage={itemsPerPage}
+                onPageChange={goToPage}
+                onNextPage={nextPage}
+                onPrevPage={prevPage}
+              />
+            </div>
           </div>
         </div>
       </main>
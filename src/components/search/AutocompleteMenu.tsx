@@ -0,0 +1,71 @@
+import React from 'react';
+import { File, Folder, Hash } from 'lucide-react';
+import { Suggestion } from '@/types';
+import { cn } from '@/lib/utils';
+
+interface AutocompleteMenuProps {
+  suggestions: Suggestion[];
+  highlightedIndex: number;
+  onSelect: (suggestion: Suggestion) => void;
+  onHighlight: (index: number) => void;
+  className?: string;
+}
+
+function SuggestionIcon({ suggestion }: { suggestion: Suggestion }) {
+  if (suggestion.kind === 'extension') return <Hash className="h-3.5 w-3.5 text-muted-foreground flex-shrink-0" />;
+  return suggestion.isDirectory
+    ? <Folder className="h-3.5 w-3.5 text-blue-500 flex-shrink-0" />
+    : <File className="h-3.5 w-3.5 text-muted-foreground flex-shrink-0" />;
+}
+
+/**
+ * Completions for the word being typed. Keyboard handling stays with the
+ * search box, which keeps focus; this only shows the highlighted entry.
+ */
+export function AutocompleteMenu({
+  suggestions,
+  highlightedIndex,
+  onSelect,
+  onHighlight,
+  className
+}: AutocompleteMenuProps) {
+  if (suggestions.length === 0) return null;
+
+  return (
+    <div
+      role="listbox"
+      className={cn(
+        "absolute top-full left-0 right-0 z-50 mt-2 py-1",
+        "bg-background/95 backdrop-blur-md border border-border/50 rounded-lg shadow-xl",
+        "animate-in slide-in-from-top",
+        className
+      )}
+    >
+      {suggestions.map((suggestion, index) => (
+        <div
+          key={`${suggestion.kind}-${suggestion.value}`}
+          role="option"
+          aria-selected={index === highlightedIndex}
+          className={cn(
+            "flex items-center gap-2 px-3 py-1.5 text-sm cursor-pointer",
+            index === highlightedIndex ? "bg-muted" : "hover:bg-muted/50"
+          )}
+          // Keep focus, and with it the cursor position, in the search box
+          onMouseDown={(e) => e.preventDefault()}
+          onMouseEnter={() => onHighlight(index)}
+          onClick={() => onSelect(suggestion)}
+        >
+          <SuggestionIcon suggestion={suggestion} />
+          <span className="truncate flex-1">
+            {suggestion.kind === 'extension' ? `.${suggestion.value}` : suggestion.value}
+          </span>
+          {suggestion.count !== undefined && (suggestion.kind === 'extension' || suggestion.count > 1) && (
+            <span className="text-xs text-muted-foreground tabular-nums">
+              {suggestion.count.toLocaleString()}
+            </span>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
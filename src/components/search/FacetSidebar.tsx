@@ -0,0 +1,106 @@
+import React from 'react';
+import { SearchFacets, SearchFilters, FacetCount, DateFacetCount, FileType } from '@/types';
+import { cn } from '@/lib/utils';
+
+interface FacetSidebarProps {
+  facets?: SearchFacets;
+  filters: SearchFilters;
+  onFiltersChange: (filters: SearchFilters) => void;
+  className?: string;
+}
+
+const countFormat = new Intl.NumberFormat(undefined, { notation: 'compact' });
+
+function toggleValue<T>(values: T[] | undefined, value: T): T[] | undefined {
+  const next = values?.includes(value) ? values.filter(v => v !== value) : [...(values ?? []), value];
+  return next.length > 0 ? next : undefined;
+}
+
+function sameDate(a?: Date, b?: Date): boolean {
+  return (a ? new Date(a).getTime() : undefined) === (b ? new Date(b).getTime() : undefined);
+}
+
+interface FacetSectionProps<T extends FacetCount> {
+  title: string;
+  values: T[];
+  isActive: (facet: T) => boolean;
+  onToggle: (facet: T) => void;
+}
+
+function FacetSection<T extends FacetCount>({ title, values, isActive, onToggle }: FacetSectionProps<T>) {
+  const shown = values.filter(facet => facet.count > 0 || isActive(facet));
+  if (shown.length === 0) return null;
+
+  return (
+    <div className="space-y-1">
+      <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wide px-2">{title}</h3>
+      {shown.map(facet => {
+        const active = isActive(facet);
+        return (
+          <button
+            key={facet.value}
+            type="button"
+            onClick={() => onToggle(facet)}
+            className={cn(
+              "w-full flex items-center justify-between gap-2 rounded px-2 py-1 text-sm text-left transition-colors",
+              active ? "bg-primary text-primary-foreground" : "hover:bg-muted"
+            )}
+            title={facet.value}
+            aria-pressed={active}
+          >
+            <span className="truncate">{facet.label}</span>
+            <span className={cn("text-xs tabular-nums", active ? "text-primary-foreground/80" : "text-muted-foreground")}>
+              {countFormat.format(facet.count)}
+            </span>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+/**
+ * Counts of the current results by type, extension, folder and age. Choosing
+ * a value narrows the search through the same filters as SearchFilters.
+ */
+export function FacetSidebar({ facets, filters, onFiltersChange, className }: FacetSidebarProps) {
+  if (!facets) return null;
+
+  const updateFilters = (updates: Partial<SearchFilters>) => {
+    onFiltersChange({ ...filters, ...updates });
+  };
+
+  const isModifiedActive = (facet: DateFacetCount) =>
+    sameDate(filters.dateModifiedFrom, facet.from) && sameDate(filters.dateModifiedTo, facet.to);
+
+  return (
+    <aside className={cn("space-y-4", className)}>
+      <FacetSection
+        title="Type"
+        values={facets.types.map(facet => ({ ...facet, label: facet.label.charAt(0).toUpperCase() + facet.label.slice(1) }))}
+        isActive={facet => filters.fileTypes?.includes(facet.value as FileType) ?? false}
+        onToggle={facet => updateFilters({ fileTypes: toggleValue(filters.fileTypes, facet.value as FileType) })}
+      />
+      <FacetSection
+        title="Extension"
+        values={facets.extensions}
+        isActive={facet => filters.extensions?.includes(facet.value) ?? false}
+        onToggle={facet => updateFilters({ extensions: toggleValue(filters.extensions, facet.value) })}
+      />
+      <FacetSection
+        title="Folder"
+        values={facets.folders}
+        isActive={facet => filters.folders?.includes(facet.value) ?? false}
+        onToggle={facet => updateFilters({ folders: toggleValue(filters.folders, facet.value) })}
+      />
+      <FacetSection
+        title="Modified"
+        values={facets.modified}
+        isActive={isModifiedActive}
+        onToggle={facet => isModifiedActive(facet)
+          ? updateFilters({ dateModifiedFrom: undefined, dateModifiedTo: undefined })
+          : updateFilters({ dateModifiedFrom: facet.from, dateModifiedTo: facet.to })}
+      />
+    </aside>
+  );
+}
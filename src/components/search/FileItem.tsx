@@ -169,6 +169,15 @@ export function FileItem({
               <span>{formatFileSize(file.size)}</span>
             </>
           )}
+          {/* Folders found by the watcher have no totals until the next scan */}
+          {file.isDirectory && file.entryCount !== undefined && (
+            <>
+              <span>•</span>
+              <span>{formatFileSize(file.size)}</span>
+              <span>•</span>
+              <span>{file.entryCount} {file.entryCount === 1 ? 'item' : 'items'}</span>
+            </>
+          )}
         </div>
       </div>
 
@@ -0,0 +1,153 @@
+import React, { useState, useMemo } from 'react';
+import { ChevronDown, ChevronRight, Folder, Shapes } from 'lucide-react';
+import { FileItem as FileItemType, GroupField, SearchGroup } from '@/types';
+import { FileItem } from './FileItem';
+import { VirtualList } from '@/components/ui/virtual-list';
+import { Button } from '@/components/ui/button';
+import { getGroupKey } from '@/lib/result-groups';
+import { formatSize } from '@/lib/size-query';
+
+interface GroupedResultsProps {
+  items: FileItemType[];
+  groups?: SearchGroup[]; // Totals over all pages; page counts stand in until they arrive
+  groupBy: GroupField;
+  searchQuery?: string;
+  onOpenFile: (file: FileItemType) => void;
+  onRevealFile: (file: FileItemType) => void;
+  selectedFiles?: FileItemType[];
+  onSelectFile?: (file: FileItemType) => void;
+}
+
+type Row =
+  | { kind: 'group'; group: SearchGroup; onPage: number }
+  | { kind: 'file'; file: FileItemType };
+
+// Headers and files share one height so VirtualList can place rows by index
+const ROW_HEIGHT = 40;
+
+function groupLabel(key: string, groupBy: GroupField): string {
+  return groupBy === 'folder' ? key : key.charAt(0).toUpperCase() + key.slice(1);
+}
+
+/**
+ * Results under collapsible headers, one per folder or file type. The main
+ * process orders results so each group's items are adjacent, which lets a page
+ * be split into groups in a single pass.
+ */
+export function GroupedResults({
+  items,
+  groups,
+  groupBy,
+  searchQuery,
+  onOpenFile,
+  onRevealFile,
+  selectedFiles = [],
+  onSelectFile
+}: GroupedResultsProps) {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  const pageGroups = useMemo(() => {
+    const totals = new Map(groups?.map(group => [group.key, group]));
+    const byKey = new Map<string, { group: SearchGroup; files: FileItemType[] }>();
+
+    for (const file of items) {
+      const key = getGroupKey(file, groupBy);
+      let entry = byKey.get(key);
+      if (!entry) {
+        entry = { group: totals.get(key) ?? { key, count: 0, size: 0 }, files: [] };
+        byKey.set(key, entry);
+      }
+      entry.files.push(file);
+    }
+
+    return Array.from(byKey.values()).map(({ group, files }) => ({
+      group: group.count > 0
+        ? group
+        : { ...group, count: files.length, size: files.reduce((sum, file) => file.isDirectory ? sum : sum + file.size, 0) },
+      files
+    }));
+  }, [items, groups, groupBy]);
+
+  const rows = useMemo(() => pageGroups.flatMap(({ group, files }): Row[] => [
+    { kind: 'group', group, onPage: files.length },
+    ...(collapsed.has(group.key) ? [] : files.map(file => ({ kind: 'file' as const, file })))
+  ]), [pageGroups, collapsed]);
+
+  const toggleGroup = (key: string) => {
+    setCollapsed(current => {
+      const next = new Set(current);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const GroupIcon = groupBy === 'folder' ? Folder : Shapes;
+  const allCollapsed = pageGroups.every(({ group }) => collapsed.has(group.key));
+
+  return (
+    <div className="flex flex-col flex-1">
+      <div className="flex items-center justify-between px-4 py-1 border-b text-xs text-muted-foreground">
+        <span>
+          {pageGroups.length.toLocaleString()} {groupBy === 'folder' ? 'folders' : 'types'} on this page
+        </span>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 px-2 text-xs"
+          onClick={() => setCollapsed(allCollapsed ? new Set() : new Set(pageGroups.map(({ group }) => group.key)))}
+        >
+          {allCollapsed ? 'Expand all' : 'Collapse all'}
+        </Button>
+      </div>
+
+      <VirtualList
+        items={rows}
+        itemHeight={ROW_HEIGHT}
+        containerHeight={500}
+        className="flex-1 px-2"
+        renderItem={(row) => {
+          if (row.kind === 'file') {
+            return (
+              <FileItem
+                file={row.file}
+                onOpen={onOpenFile}
+                onReveal={onRevealFile}
+                onSelect={onSelectFile}
+                isSelected={selectedFiles.some(f => f.id === row.file.id)}
+                searchQuery={searchQuery}
+                className="w-full py-1.5 px-2 pl-8"
+              />
+            );
+          }
+
+          const { group, onPage } = row;
+          const isCollapsed = collapsed.has(group.key);
+          const Chevron = isCollapsed ? ChevronRight : ChevronDown;
+
+          return (
+            <button
+              type="button"
+              onClick={() => toggleGroup(group.key)}
+              className="w-full h-full flex items-center gap-2 px-2 rounded text-sm text-left hover:bg-muted"
+              title={group.key}
+              aria-expanded={!isCollapsed}
+            >
+              <Chevron className="h-4 w-4 shrink-0 text-muted-foreground" />
+              <GroupIcon className="h-4 w-4 shrink-0 text-muted-foreground" />
+              <span className="font-medium truncate">{groupLabel(group.key, groupBy)}</span>
+              <span className="ml-auto shrink-0 text-xs text-muted-foreground tabular-nums">
+                {group.count.toLocaleString()} {group.count === 1 ? 'item' : 'items'}
+                {onPage < group.count && ` (${onPage.toLocaleString()} on this page)`}
+                {' · '}{formatSize(group.size)}
+              </span>
+            </button>
+          );
+        }}
+      />
+    </div>
+  );
+}
@@ -1,5 +1,7 @@
 import React from 'react';
 import { cn } from '@/lib/utils';
+import { getHighlightPatterns, getTextTerms, parseQuery } from '@/lib/query-parser';
+import { matchWordBoundaries } from '@/lib/word-match';
 
 interface HighlightedTextProps {
   text: string;
@@ -18,47 +20,64 @@ export function HighlightedText({
     return <span className={className}>{text}</span>;
   }
 
-  // Clean the query by removing search operators
-  const cleanQuery = query
-    .replace(/ext:\w+/gi, '')
-    .replace(/size:[><]?\d+(kb|mb|gb)?/gi, '')
-    .replace(/date:(today|yesterday|week|month|year)/gi, '')
-    .replace(/type:\w+/gi, '')
-    .trim();
-
-  if (!cleanQuery) {
-    return <span className={className}>{text}</span>;
+  // Highlight what the query matched: text terms, globs and regex: patterns.
+  // Spans are collected per pattern and merged, since user patterns may
+  // overlap each other or contain groups that would break String.split.
+  const ranges: Array<[number, number]> = [];
+  for (const pattern of getHighlightPatterns(query)) {
+    for (const match of text.matchAll(pattern)) {
+      if (match[0].length > 0) {
+        ranges.push([match.index!, match.index! + match[0].length]);
+      }
+    }
   }
 
-  // Split query into words for better matching
-  const queryWords = cleanQuery
-    .split(/\s+/)
-    .filter(word => word.length > 0)
-    .map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')); // Escape regex chars
+  // Otherwise the text may have matched by initials or camelCase humps, so
+  // mark those characters individually ("ufs" in useFileSearch.ts)
+  if (ranges.length === 0) {
+    for (const term of getTextTerms(parseQuery(query))) {
+      if (/\s/.test(term)) continue;
+      for (const position of matchWordBoundaries(term, text)?.positions ?? []) {
+        ranges.push([position, position + 1]);
+      }
+    }
+  }
 
-  if (queryWords.length === 0) {
+  if (ranges.length === 0) {
     return <span className={className}>{text}</span>;
   }
 
-  // Create regex pattern that matches any of the query words
-  const pattern = new RegExp(`(${queryWords.join('|')})`, 'gi');
-  const parts = text.split(pattern);
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: Array<[number, number]> = [];
+  for (const [start, end] of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  }
+
+  const parts: Array<{ text: string; isMatch: boolean }> = [];
+  let position = 0;
+  for (const [start, end] of merged) {
+    if (start > position) parts.push({ text: text.slice(position, start), isMatch: false });
+    parts.push({ text: text.slice(start, end), isMatch: true });
+    position = end;
+  }
+  if (position < text.length) parts.push({ text: text.slice(position), isMatch: false });
 
   return (
     <span className={className}>
-      {parts.map((part, index) => {
-        const isMatch = queryWords.some(word => 
-          new RegExp(word, 'i').test(part)
-        );
-        
-        return isMatch ? (
+      {parts.map((part, index) =>
+        part.isMatch ? (
           <mark key={index} className={cn("rounded px-0.5", highlightClassName)}>
-            {part}
+            {part.text}
           </mark>
         ) : (
-          <span key={index}>{part}</span>
-        );
-      })}
+          <span key={index}>{part.text}</span>
+        )
+      )}
     </span>
   );
 }
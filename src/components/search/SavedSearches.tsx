@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { FolderSearch, Pin, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { SavedSearch } from '@/types';
+import { cn } from '@/lib/utils';
+
+interface SavedSearchesProps {
+  searches: SavedSearch[];
+  activeId?: number;
+  onRun: (search: SavedSearch) => void;
+  onSaveCurrent?: (name: string) => void; // Absent when there is nothing to save
+  onTogglePin: (search: SavedSearch) => void;
+  onDelete: (search: SavedSearch) => void;
+  className?: string;
+}
+
+const countFormat = new Intl.NumberFormat(undefined, { notation: 'compact' });
+
+/**
+ * Saved searches as smart folders: each runs its query, filters and sort, and
+ * shows how many files currently match.
+ */
+export function SavedSearches({
+  searches,
+  activeId,
+  onRun,
+  onSaveCurrent,
+  onTogglePin,
+  onDelete,
+  className
+}: SavedSearchesProps) {
+  const [isNaming, setIsNaming] = useState(false);
+  const [name, setName] = useState('');
+
+  const save = () => {
+    if (!name.trim() || !onSaveCurrent) return;
+    onSaveCurrent(name.trim());
+    setName('');
+    setIsNaming(false);
+  };
+
+  return (
+    <div className={cn("space-y-1", className)}>
+      <div className="flex items-center justify-between px-2">
+        <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Smart folders</h3>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 w-6 p-0"
+          onClick={() => setIsNaming(!isNaming)}
+          disabled={!onSaveCurrent}
+          title="Save current search"
+        >
+          <Plus className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+
+      {isNaming && onSaveCurrent && (
+        <Input
+          autoFocus
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') save();
+            if (e.key === 'Escape') setIsNaming(false);
+          }}
+          onBlur={() => !name.trim() && setIsNaming(false)}
+          placeholder="Name this search"
+          className="h-8 text-sm"
+        />
+      )}
+
+      {searches.length === 0 && !isNaming && (
+        <p className="px-2 text-xs text-muted-foreground">
+          Save a search to keep it here with a live count.
+        </p>
+      )}
+
+      {searches.map(search => (
+        <div
+          key={search.id}
+          className={cn(
+            "group flex items-center gap-2 rounded px-2 py-1 text-sm cursor-pointer transition-colors",
+            search.id === activeId ? "bg-primary text-primary-foreground" : "hover:bg-muted"
+          )}
+          onClick={() => onRun(search)}
+          title={search.query}
+        >
+          <FolderSearch className="h-4 w-4 shrink-0 opacity-70" />
+          <span className="truncate flex-1">{search.name}</span>
+
+          <button
+            type="button"
+            className={cn("shrink-0 opacity-0 group-hover:opacity-70 hover:!opacity-100", search.pinned && "opacity-70")}
+            onClick={(e) => {
+              e.stopPropagation();
+              onTogglePin(search);
+            }}
+            title={search.pinned ? 'Unpin from tray menu' : 'Pin to tray menu'}
+          >
+            <Pin className={cn("h-3.5 w-3.5", search.pinned && "fill-current")} />
+          </button>
+          <button
+            type="button"
+            className="shrink-0 opacity-0 group-hover:opacity-70 hover:!opacity-100"
+            onClick={(e) => {
+              e.stopPropagation();
+              onDelete(search);
+            }}
+            title="Delete saved search"
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+          </button>
+
+          <span className={cn(
+            "shrink-0 text-xs tabular-nums",
+            search.id === activeId ? "text-primary-foreground/80" : "text-muted-foreground"
+          )}>
+            {search.count !== undefined ? countFormat.format(search.count) : '–'}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
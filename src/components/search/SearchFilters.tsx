@@ -6,6 +6,7 @@ import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { SearchFilters as SearchFiltersType, FileType } from '@/types';
 import { cn } from '@/lib/utils';
+import { SIZE_BUCKETS, parseSizeQuery, formatSizeRange } from '@/lib/size-query';
 
 interface SearchFiltersProps {
   filters: SearchFiltersType;
@@ -23,12 +24,13 @@ const FILE_TYPES = [
   { type: FileType.DIRECTORY, label: 'Folders', color: 'bg-blue-600' },
 ];
 
-const SIZE_PRESETS = [
-  { label: 'Small (< 1MB)', min: 0, max: 1024 * 1024 },
-  { label: 'Medium (1-10MB)', min: 1024 * 1024, max: 10 * 1024 * 1024 },
-  { label: 'Large (10-100MB)', min: 10 * 1024 * 1024, max: 100 * 1024 * 1024 },
-  { label: 'Very Large (> 100MB)', min: 100 * 1024 * 1024, max: undefined },
-];
+const DATE_FIELDS = [
+  { field: 'dateModified', label: 'Modified' },
+  { field: 'dateCreated', label: 'Created' },
+  { field: 'dateAccessed', label: 'Accessed' },
+] as const;
+
+type DateField = typeof DATE_FIELDS[number]['field'];
 
 const DATE_PRESETS = [
   { label: 'Today', days: 0 },
@@ -37,8 +39,41 @@ const DATE_PRESETS = [
   { label: 'Last year', days: 365 },
 ];
 
+// The end of a date range is exclusive; an end at local midnight is shown as
+// the day before, the last one the range covers
+function lastDayOf(to: Date): Date {
+  const value = new Date(to);
+  const isMidnight = value.getHours() === 0 && value.getMinutes() === 0 &&
+    value.getSeconds() === 0 && value.getMilliseconds() === 0;
+  return isMidnight ? new Date(value.getFullYear(), value.getMonth(), value.getDate() - 1) : value;
+}
+
+// <input type="date"> works in local calendar days as YYYY-MM-DD
+function toDateInputValue(date: Date | undefined, exclusiveEnd: boolean): string {
+  if (!date) return '';
+  const value = exclusiveEnd ? lastDayOf(date) : new Date(date);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+}
+
+function fromDateInputValue(value: string, exclusiveEnd: boolean): Date | undefined {
+  if (!value) return undefined;
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, exclusiveEnd ? day + 1 : day);
+}
+
+function formatDateRange(from?: Date, to?: Date): string {
+  const format = (date: Date) => new Date(date).toLocaleDateString();
+  if (from && to) return `${format(from)} – ${format(lastDayOf(to))}`;
+  if (from) return `since ${format(from)}`;
+  return to ? `until ${format(lastDayOf(to))}` : '';
+}
+
 export function SearchFilters({ filters, onFiltersChange, className }: SearchFiltersProps) {
   const [isExpanded, setIsExpanded] = useState(false);
+  const [dateField, setDateField] = useState<DateField>('dateModified');
+  const [sizeInput, setSizeInput] = useState('');
+  const sizeInputRange = sizeInput.trim() ? parseSizeQuery(sizeInput) : undefined;
 
   const updateFilters = (updates: Partial<SearchFiltersType>) => {
     onFiltersChange({ ...filters, ...updates });
@@ -57,13 +92,26 @@ export function SearchFilters({ filters, onFiltersChange, className }: SearchFil
     updateFilters({ sizeMin: min, sizeMax: max });
   };
 
+  const applySizeInput = () => {
+    if (!sizeInputRange) return;
+    setSizeFilter(sizeInputRange.min, sizeInputRange.max);
+    setSizeInput('');
+  };
+
+  const hasSizeFilter = filters.sizeMin !== undefined || (filters.sizeMax !== undefined && Number.isFinite(filters.sizeMax));
+
+  const setDateRange = (field: DateField, from?: Date, to?: Date) => {
+    updateFilters({ [`${field}From`]: from, [`${field}To`]: to });
+  };
+
   const setDateFilter = (days: number) => {
     const date = new Date();
     date.setDate(date.getDate() - days);
-    updateFilters({ 
-      dateModifiedFrom: days === 0 ? new Date(date.getFullYear(), date.getMonth(), date.getDate()) : date,
-      dateModifiedTo: days === 0 ? new Date() : undefined
-    });
+    setDateRange(
+      dateField,
+      days === 0 ? new Date(date.getFullYear(), date.getMonth(), date.getDate()) : date,
+      days === 0 ? new Date() : undefined
+    );
   };
 
   const clearFilters = () => {
@@ -77,9 +125,10 @@ export function SearchFilters({ filters, onFiltersChange, className }: SearchFil
 
   const activeFilterCount = [
     filters.fileTypes?.length || 0,
-    filters.sizeMin || filters.sizeMax ? 1 : 0,
-    filters.dateModifiedFrom ? 1 : 0,
+    hasSizeFilter ? 1 : 0,
+    ...DATE_FIELDS.map(({ field }) => (filters[`${field}From`] || filters[`${field}To`] ? 1 : 0)),
     filters.extensions?.length || 0,
+    filters.folders?.length || 0,
   ].reduce((sum, count) => sum + count, 0);
 
   return (
@@ -124,27 +173,47 @@ export function SearchFilters({ filters, onFiltersChange, className }: SearchFil
             </Badge>
           ))}
           
-          {(filters.sizeMin || filters.sizeMax) && (
+          {hasSizeFilter && (
             <Badge
               variant="secondary"
               className="gap-1 cursor-pointer hover:bg-secondary/80"
               onClick={() => setSizeFilter()}
             >
-              Size filter
+              {formatSizeRange({ min: filters.sizeMin, max: filters.sizeMax })}
               <X className="h-3 w-3" />
             </Badge>
           )}
           
-          {filters.dateModifiedFrom && (
+          {DATE_FIELDS.map(({ field, label }) => {
+            const from = filters[`${field}From`];
+            const to = filters[`${field}To`];
+            if (!from && !to) return null;
+
+            return (
+              <Badge
+                key={field}
+                variant="secondary"
+                className="gap-1 cursor-pointer hover:bg-secondary/80"
+                onClick={() => setDateRange(field)}
+              >
+                {label} {formatDateRange(from, to)}
+                <X className="h-3 w-3" />
+              </Badge>
+            );
+          })}
+
+          {filters.folders?.map(folder => (
             <Badge
+              key={folder}
               variant="secondary"
               className="gap-1 cursor-pointer hover:bg-secondary/80"
-              onClick={() => updateFilters({ dateModifiedFrom: undefined, dateModifiedTo: undefined })}
+              onClick={() => updateFilters({ folders: filters.folders?.filter(f => f !== folder) })}
+              title={folder}
             >
-              Date filter
+              in {folder.split(/[\\/]/).pop() || folder}
               <X className="h-3 w-3" />
             </Badge>
-          )}
+          ))}
         </div>
       )}
 
@@ -184,26 +253,55 @@ export function SearchFilters({ filters, onFiltersChange, className }: SearchFil
                 File Size
               </h4>
               <div className="grid grid-cols-2 gap-2">
-                {SIZE_PRESETS.map(({ label, min, max }) => (
+                {SIZE_BUCKETS.map(({ name, label, range }) => (
                   <Button
-                    key={label}
-                    variant="outline"
+                    key={name}
+                    variant={filters.sizeMin === range.min && filters.sizeMax === range.max ? "default" : "outline"}
                     size="sm"
-                    onClick={() => setSizeFilter(min, max)}
+                    onClick={() => setSizeFilter(range.min, range.max)}
                     className="justify-start"
                   >
                     {label}
                   </Button>
                 ))}
               </div>
+              <div className="mt-3 space-y-1">
+                <Input
+                  placeholder="e.g., 10MB..1GB, >=1.5gb, 10MB+"
+                  value={sizeInput}
+                  onChange={(e) => setSizeInput(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') applySizeInput();
+                  }}
+                  onBlur={applySizeInput}
+                  className={cn(sizeInputRange === null && "border-destructive")}
+                />
+                {sizeInputRange && (
+                  <p className="text-xs text-muted-foreground">
+                    {formatSizeRange(sizeInputRange)}
+                  </p>
+                )}
+              </div>
             </div>
 
-            {/* Date Modified */}
+            {/* Dates */}
             <div>
               <h4 className="text-sm font-medium mb-3 flex items-center gap-2">
                 <Calendar className="h-4 w-4" />
-                Date Modified
+                Date
               </h4>
+              <div className="flex gap-1 mb-3">
+                {DATE_FIELDS.map(({ field, label }) => (
+                  <Button
+                    key={field}
+                    variant={dateField === field ? "secondary" : "ghost"}
+                    size="sm"
+                    onClick={() => setDateField(field)}
+                  >
+                    {label}
+                  </Button>
+                ))}
+              </div>
               <div className="grid grid-cols-2 gap-2">
                 {DATE_PRESETS.map(({ label, days }) => (
                   <Button
@@ -217,6 +315,24 @@ export function SearchFilters({ filters, onFiltersChange, className }: SearchFil
                   </Button>
                 ))}
               </div>
+              <div className="grid grid-cols-2 gap-2 mt-3">
+                <label className="text-xs text-muted-foreground space-y-1">
+                  <span>From</span>
+                  <Input
+                    type="date"
+                    value={toDateInputValue(filters[`${dateField}From`], false)}
+                    onChange={(e) => setDateRange(dateField, fromDateInputValue(e.target.value, false), filters[`${dateField}To`])}
+                  />
+                </label>
+                <label className="text-xs text-muted-foreground space-y-1">
+                  <span>To</span>
+                  <Input
+                    type="date"
+                    value={toDateInputValue(filters[`${dateField}To`], true)}
+                    onChange={(e) => setDateRange(dateField, filters[`${dateField}From`], fromDateInputValue(e.target.value, true))}
+                  />
+                </label>
+              </div>
             </div>
 
             {/* Custom Extensions */}
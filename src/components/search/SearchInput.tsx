@@ -1,9 +1,12 @@
-import React, { useState, useCallback, useEffect, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { Search, X } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { SearchSuggestions } from './SearchSuggestions';
-import { useSearchHistory } from '@/hooks/useSearchHistory';
+import { AutocompleteMenu } from './AutocompleteMenu';
+import { useSuggestions } from '@/hooks/useSuggestions';
+import { applySuggestion } from '@/lib/autocomplete';
+import { Suggestion } from '@/types';
 import { cn } from '@/lib/utils';
 
 interface SearchInputProps {
@@ -25,16 +28,65 @@ export function SearchInput({
 }: SearchInputProps) {
   const [isFocused, setIsFocused] = useState(false);
   const [showSuggestions, setShowSuggestions] = useState(false);
+  const [cursor, setCursor] = useState<number | null>(null);
+  const [showCompletions, setShowCompletions] = useState(false);
+  const [highlightedIndex, setHighlightedIndex] = useState(-1);
   const inputRef = useRef<HTMLInputElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
-  const { addToHistory } = useSearchHistory();
+  const pendingCursorRef = useRef<number | null>(null);
+
+  const { context, suggestions } = useSuggestions(value, isFocused ? cursor : null);
+  const completions = useMemo(() => (showCompletions ? suggestions : []), [showCompletions, suggestions]);
+
+  useEffect(() => {
+    setHighlightedIndex(-1);
+  }, [suggestions]);
+
+  // Place the cursor after an inserted suggestion once the new value has rendered
+  useEffect(() => {
+    if (pendingCursorRef.current === null || !inputRef.current) return;
+    inputRef.current.setSelectionRange(pendingCursorRef.current, pendingCursorRef.current);
+    setCursor(pendingCursorRef.current);
+    pendingCursorRef.current = null;
+  }, [value]);
+
+  const insertSuggestion = useCallback((suggestion: Suggestion) => {
+    if (!context) return;
+    const applied = applySuggestion(value, context, suggestion);
+    pendingCursorRef.current = applied.cursor;
+    onChange(applied.query);
+    // A folder can be continued, so keep completing it
+    setShowCompletions(suggestion.kind === 'folder');
+  }, [value, context, onChange]);
 
   const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
+    if (completions.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        // -1 leaves the typed text highlighted, so Enter still searches
+        setHighlightedIndex(index => {
+          const next = index + step;
+          return next >= completions.length ? -1 : next < -1 ? completions.length - 1 : next;
+        });
+        return;
+      }
+      if ((e.key === 'Enter' && highlightedIndex >= 0) || e.key === 'Tab') {
+        e.preventDefault();
+        insertSuggestion(completions[Math.max(highlightedIndex, 0)]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        setShowCompletions(false);
+        return;
+      }
+    }
+
     if (e.key === 'Enter') {
       if (value.trim()) {
-        addToHistory(value.trim());
         onSearch(value);
         setShowSuggestions(false);
+        setShowCompletions(false);
       }
     } else if (e.key === 'Escape') {
       if (showSuggestions) {
@@ -46,7 +98,7 @@ export function SearchInput({
       e.preventDefault();
       // Focus first suggestion (could be enhanced)
     }
-  }, [value, onChange, onSearch, showSuggestions, addToHistory]);
+  }, [value, onChange, onSearch, showSuggestions, completions, highlightedIndex, insertSuggestion]);
 
   const handleClear = useCallback(() => {
     onChange('');
@@ -69,10 +121,9 @@ export function SearchInput({
 
   const handleSuggestionSelect = useCallback((query: string) => {
     onChange(query);
-    addToHistory(query);
     onSearch(query);
     setShowSuggestions(false);
-  }, [onChange, onSearch, addToHistory]);
+  }, [onChange, onSearch]);
 
   // Trigger search on value change with debouncing
   useEffect(() => {
@@ -116,7 +167,12 @@ export function SearchInput({
         <Input
           ref={inputRef}
           value={value}
-          onChange={(e) => onChange(e.target.value)}
+          onChange={(e) => {
+            onChange(e.target.value);
+            setCursor(e.target.selectionStart);
+            setShowCompletions(true);
+          }}
+          onSelect={(e) => setCursor(e.currentTarget.selectionStart)}
           onKeyDown={handleKeyDown}
           onFocus={handleFocus}
           onBlur={handleBlur}
@@ -141,9 +197,17 @@ export function SearchInput({
         )}
       </div>
 
+      {/* Completions for the word being typed take the place of suggestions */}
+      <AutocompleteMenu
+        suggestions={completions}
+        highlightedIndex={highlightedIndex}
+        onSelect={insertSuggestion}
+        onHighlight={setHighlightedIndex}
+      />
+
       {/* Search Suggestions */}
       <SearchSuggestions
-        isVisible={showSuggestions}
+        isVisible={showSuggestions && completions.length === 0}
         onSelectSuggestion={handleSuggestionSelect}
         onClose={() => setShowSuggestions(false)}
       />
@@ -1,8 +1,10 @@
 import React, { useState, useMemo } from 'react';
-import { SearchResult, FileItem as FileItemType } from '@/types';
+import { SearchResult, SearchSort, GroupField, FileItem as FileItemType } from '@/types';
 import { FileItem } from './FileItem';
 import { ViewToggle, ViewMode } from './ViewToggle';
+import { GroupedResults } from './GroupedResults';
 import { Pagination } from './Pagination';
+import { SortHeader } from './SortHeader';
 import { VirtualList } from '@/components/ui/virtual-list';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
@@ -12,11 +14,14 @@ import { cn } from '@/lib/utils';
 interface SearchResultsProps {
   results: SearchResult | null;
   isLoading: boolean;
+  isStreaming?: boolean; // Some results are shown and more may still arrive
   onOpenFile: (file: FileItemType) => void;
   onRevealFile: (file: FileItemType) => void;
   className?: string;
   selectedFiles?: FileItemType[];
   onSelectFile?: (file: FileItemType) => void;
+  onSortChange?: (sort: SearchSort) => void;
+  onGroupByChange?: (groupBy: GroupField | null) => void;
   // Pagination props
   currentPage?: number;
   totalPages?: number;
@@ -28,14 +33,23 @@ interface SearchResultsProps {
   onPrevPage?: () => void;
 }
 
+// Grouped views, which the main process orders and totals for
+const VIEW_GROUPS: Partial<Record<ViewMode, GroupField>> = {
+  folders: 'folder',
+  types: 'type',
+};
+
 export function SearchResults({
   results,
   isLoading,
+  isStreaming = false,
   onOpenFile,
   onRevealFile,
   className,
   selectedFiles = [],
   onSelectFile,
+  onSortChange,
+  onGroupByChange,
   currentPage = 1,
   totalPages = 0,
   hasNextPage = false,
@@ -46,6 +60,14 @@ export function SearchResults({
   onPrevPage
 }: SearchResultsProps) {
   const [viewMode, setViewMode] = useState<ViewMode>('list');
+  const groupBy = VIEW_GROUPS[viewMode];
+
+  const changeViewMode = (mode: ViewMode) => {
+    setViewMode(mode);
+    if ((VIEW_GROUPS[mode] ?? null) !== (groupBy ?? null)) {
+      onGroupByChange?.(VIEW_GROUPS[mode] ?? null);
+    }
+  };
 
   // Memoize item height based on view mode
   const itemHeight = useMemo(() => {
@@ -111,9 +133,14 @@ export function SearchResults({
             Search Results
           </h2>
           <Badge variant="secondary" className="text-xs">
-            {results.totalCount.toLocaleString()} {results.totalCount === 1 ? 'item' : 'items'}
+            {results.totalCount.toLocaleString()}{isStreaming && '+'} {results.totalCount === 1 && !isStreaming ? 'item' : 'items'}
           </Badge>
-          {results.executionTime > 0 && (
+          {isStreaming ? (
+            <span className="flex items-center gap-1.5 text-xs text-muted-foreground">
+              <Loader2 className="h-3 w-3 animate-spin" />
+              Still searching…
+            </span>
+          ) : results.executionTime > 0 && (
             <Badge variant="outline" className="text-xs">
               {results.executionTime}ms
             </Badge>
@@ -129,13 +156,29 @@ export function SearchResults({
 
           <ViewToggle
             viewMode={viewMode}
-            onViewModeChange={setViewMode}
+            onViewModeChange={changeViewMode}
           />
         </div>
       </div>
 
+      {onSortChange && (
+        <SortHeader sort={results.sort} onSortChange={onSortChange} />
+      )}
+
       {/* Results List */}
-      {shouldUseVirtualization && viewMode === 'list' ? (
+      {groupBy ? (
+        <GroupedResults
+          key={groupBy}
+          items={results.items}
+          groups={results.groups}
+          groupBy={groupBy}
+          searchQuery={results.query}
+          onOpenFile={onOpenFile}
+          onRevealFile={onRevealFile}
+          selectedFiles={selectedFiles}
+          onSelectFile={onSelectFile}
+        />
+      ) : shouldUseVirtualization && viewMode === 'list' ? (
         <VirtualList
           items={results.items}
           itemHeight={itemHeight}
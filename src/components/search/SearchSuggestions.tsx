@@ -1,9 +1,10 @@
-import React, { useState, useEffect } from 'react';
-import { Clock, TrendingUp, X, Search } from 'lucide-react';
+import React from 'react';
+import { Clock, TrendingUp, X, Search, Flame, SearchX } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { useSearchHistory } from '@/hooks/useSearchHistory';
+import { SearchHistoryItem } from '@/types';
 import { cn } from '@/lib/utils';
 
 interface SearchSuggestionsProps {
@@ -18,8 +19,24 @@ const SEARCH_OPERATORS = [
   { operator: 'type:image', description: 'Find image files' },
   { operator: 'type:document', description: 'Find document files' },
   { operator: 'size:>100MB', description: 'Find large files' },
+  { operator: 'size:10MB..1GB', description: 'Size range (also 10MB+, empty, tiny, huge)' },
   { operator: 'date:today', description: 'Files modified today' },
   { operator: 'date:week', description: 'Files from last week' },
+  { operator: 'modified:<7d', description: 'Modified in the last 7 days (h, d, w, m, y)' },
+  { operator: 'created:2025-01-01..2025-03-31', description: 'Created within a date range' },
+  { operator: 'accessed:lastmonth', description: 'Opened last month (also thisyear, lastweek…)' },
+  { operator: 'sort:size-desc', description: 'Sort by name, path, size, modified, created, accessed or type' },
+  { operator: 'ext:jpg OR ext:png', description: 'Match either term' },
+  { operator: 'report -ext:tmp', description: 'Exclude matches with -term or NOT' },
+  { operator: '"quarterly report"', description: 'Match an exact phrase' },
+  { operator: 'ufs', description: 'Initials of camelCase or snake_case words, e.g. useFileSearch' },
+  { operator: 'name:readme', description: 'Match the file name only' },
+  { operator: 'in:src/components', description: 'Anywhere below a folder (also path:)' },
+  { operator: 'parent:Downloads', description: 'Directly inside a folder' },
+  { operator: 'depth:<3', description: 'At most 2 folders below an indexed location' },
+  { operator: '*.test.ts', description: 'Glob on names: * any run, ? one character' },
+  { operator: 'src/**/index.*', description: 'Glob on paths: ** spans folders' },
+  { operator: 'regex:^IMG_\\d{4}\\.jpe?g$', description: 'Regular expression on names' },
 ];
 
 export function SearchSuggestions({
@@ -28,14 +45,7 @@ export function SearchSuggestions({
   onClose,
   className
 }: SearchSuggestionsProps) {
-  const { getRecentSearches, removeFromHistory, clearHistory } = useSearchHistory();
-  const [recentSearches, setRecentSearches] = useState(getRecentSearches(8));
-
-  useEffect(() => {
-    if (isVisible) {
-      setRecentSearches(getRecentSearches(8));
-    }
-  }, [isVisible, getRecentSearches]);
+  const { recentSearches, popularSearches, zeroResultSearches, removeFromHistory, clearHistory } = useSearchHistory();
 
   if (!isVisible) return null;
 
@@ -47,14 +57,38 @@ export function SearchSuggestions({
   const handleRemoveSearch = (query: string, e: React.MouseEvent) => {
     e.stopPropagation();
     removeFromHistory(query);
-    setRecentSearches(getRecentSearches(8));
   };
 
+  const renderHistoryItem = (item: SearchHistoryItem, detail: React.ReactNode) => (
+    <div
+      key={item.query}
+      className="flex items-center justify-between p-2 rounded hover:bg-muted/50 cursor-pointer group"
+      onClick={() => handleSuggestionClick(item.query)}
+    >
+      <div className="flex items-center gap-2 flex-1 min-w-0">
+        <Search className="h-3 w-3 text-muted-foreground flex-shrink-0" />
+        <span className="text-sm truncate">{item.query}</span>
+        <Badge variant="outline" className="text-xs">
+          {detail}
+        </Badge>
+      </div>
+
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={(e) => handleRemoveSearch(item.query, e)}
+        className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100 transition-opacity"
+      >
+        <X className="h-3 w-3" />
+      </Button>
+    </div>
+  );
+
   return (
     <div className={cn(
       "absolute top-full left-0 right-0 z-50 mt-2",
       "bg-background/95 backdrop-blur-md border rounded-lg shadow-xl",
-      "max-h-96 overflow-hidden animate-in slide-in-from-top",
+      "max-h-96 overflow-y-auto animate-in slide-in-from-top",
       "border-border/50",
       className
     )}>
@@ -78,32 +112,35 @@ export function SearchSuggestions({
             </div>
             
             <div className="space-y-1">
-              {recentSearches.map((item) => (
-                <div
-                  key={`${item.query}-${item.timestamp}`}
-                  className="flex items-center justify-between p-2 rounded hover:bg-muted/50 cursor-pointer group"
-                  onClick={() => handleSuggestionClick(item.query)}
-                >
-                  <div className="flex items-center gap-2 flex-1 min-w-0">
-                    <Search className="h-3 w-3 text-muted-foreground flex-shrink-0" />
-                    <span className="text-sm truncate">{item.query}</span>
-                    {item.resultCount !== undefined && (
-                      <Badge variant="outline" className="text-xs">
-                        {item.resultCount} results
-                      </Badge>
-                    )}
-                  </div>
-                  
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={(e) => handleRemoveSearch(item.query, e)}
-                    className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100 transition-opacity"
-                  >
-                    <X className="h-3 w-3" />
-                  </Button>
-                </div>
-              ))}
+              {recentSearches.slice(0, 8).map(item => renderHistoryItem(item, `${item.resultCount} results`))}
+            </div>
+          </div>
+        )}
+
+        {/* Popular Searches */}
+        {popularSearches.length > 0 && (
+          <div>
+            <h3 className="text-sm font-medium mb-3 flex items-center gap-2">
+              <Flame className="h-4 w-4" />
+              Popular
+            </h3>
+
+            <div className="space-y-1">
+              {popularSearches.slice(0, 5).map(item => renderHistoryItem(item, `${item.timesSearched}×`))}
+            </div>
+          </div>
+        )}
+
+        {/* Searches that found nothing, to retry after indexing more */}
+        {zeroResultSearches.length > 0 && (
+          <div>
+            <h3 className="text-sm font-medium mb-3 flex items-center gap-2">
+              <SearchX className="h-4 w-4" />
+              No results
+            </h3>
+
+            <div className="space-y-1">
+              {zeroResultSearches.slice(0, 5).map(item => renderHistoryItem(item, 'none'))}
             </div>
           </div>
         )}
@@ -0,0 +1,63 @@
+import React from 'react';
+import { ArrowDown, ArrowUp } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { SearchSort, SortField } from '@/types';
+import { defaultSortDirection } from '@/lib/query-parser';
+import { cn } from '@/lib/utils';
+
+interface SortHeaderProps {
+  sort?: SearchSort;
+  onSortChange: (sort: SearchSort) => void;
+  className?: string;
+}
+
+const SORT_COLUMNS: { field: SortField; label: string }[] = [
+  { field: 'relevance', label: 'Relevance' },
+  { field: 'name', label: 'Name' },
+  { field: 'path', label: 'Path' },
+  { field: 'size', label: 'Size' },
+  { field: 'dateModified', label: 'Modified' },
+  { field: 'dateCreated', label: 'Created' },
+  { field: 'dateAccessed', label: 'Accessed' },
+  { field: 'type', label: 'Type' },
+];
+
+export function SortHeader({ sort, onSortChange, className }: SortHeaderProps) {
+  const activeField = sort?.sortBy ?? 'relevance';
+
+  const handleClick = (field: SortField) => {
+    // Clicking the active column flips it; relevance only runs one way
+    if (field === activeField && field !== 'relevance') {
+      onSortChange({ sortBy: field, sortDirection: sort?.sortDirection === 'asc' ? 'desc' : 'asc' });
+    } else {
+      onSortChange({ sortBy: field, sortDirection: defaultSortDirection(field) });
+    }
+  };
+
+  return (
+    <div className={cn("flex items-center gap-1 px-4 py-1 border-b overflow-x-auto", className)}>
+      <span className="text-xs text-muted-foreground mr-1">Sort by</span>
+      {SORT_COLUMNS.map(({ field, label }) => {
+        const isActive = field === activeField;
+        const Arrow = sort?.sortDirection === 'asc' ? ArrowUp : ArrowDown;
+
+        return (
+          <Button
+            key={field}
+            variant="ghost"
+            size="sm"
+            onClick={() => handleClick(field)}
+            className={cn(
+              "h-7 px-2 text-xs gap-1",
+              isActive ? "text-foreground font-medium bg-muted" : "text-muted-foreground"
+            )}
+            aria-pressed={isActive}
+          >
+            {label}
+            {isActive && field !== 'relevance' && <Arrow className="h-3 w-3" />}
+          </Button>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,9 +1,9 @@
 import React from 'react';
-import { List, Grid3X3, LayoutGrid } from 'lucide-react';
+import { List, Grid3X3, LayoutGrid, FolderTree, Shapes } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
 
-export type ViewMode = 'list' | 'grid' | 'compact';
+export type ViewMode = 'list' | 'grid' | 'compact' | 'folders' | 'types';
 
 interface ViewToggleProps {
   viewMode: ViewMode;
@@ -15,6 +15,8 @@ const VIEW_OPTIONS = [
   { mode: 'list' as ViewMode, icon: List, label: 'List View' },
   { mode: 'grid' as ViewMode, icon: LayoutGrid, label: 'Grid View' },
   { mode: 'compact' as ViewMode, icon: Grid3X3, label: 'Compact View' },
+  { mode: 'folders' as ViewMode, icon: FolderTree, label: 'Group by Folder' },
+  { mode: 'types' as ViewMode, icon: Shapes, label: 'Group by Type' },
 ];
 
 export function ViewToggle({ viewMode, onViewModeChange, className }: ViewToggleProps) {
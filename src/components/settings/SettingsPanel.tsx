@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { 
   Settings, 
   Monitor, 
@@ -7,7 +7,8 @@ import {
   Database, 
   Search,
   Trash2,
-  RefreshCw
+  RefreshCw,
+  TrendingUp
 } from 'lucide-react';
 import {
   Dialog,
@@ -23,6 +24,7 @@ import { Badge } from '@/components/ui/badge';
 import { useTheme } from '@/hooks/useTheme';
 import { useSearchHistory } from '@/hooks/useSearchHistory';
 import { cn } from '@/lib/utils';
+import { UsageSettings } from '@/types';
 
 interface SettingsPanelProps {
   open: boolean;
@@ -34,6 +36,36 @@ export function SettingsPanel({ open, onOpenChange }: SettingsPanelProps) {
   const { history, clearHistory } = useSearchHistory();
   const [isClearing, setIsClearing] = useState(false);
   const [isReindexing, setIsReindexing] = useState(false);
+  const [usageSettings, setUsageSettings] = useState<UsageSettings | null>(null);
+
+  useEffect(() => {
+    if (!open || !window.fileSearchAPI) return;
+
+    window.fileSearchAPI.getUsageSettings()
+      .then(response => {
+        if (response.success && response.data) setUsageSettings(response.data);
+      })
+      .catch(error => console.error('Failed to load usage settings:', error));
+  }, [open]);
+
+  const handleToggleUsageLearning = async () => {
+    if (!usageSettings) return;
+    try {
+      const response = await window.fileSearchAPI.setUsageLearning(!usageSettings.learningEnabled);
+      if (response.success && response.data) setUsageSettings(response.data);
+    } catch (error) {
+      console.error('Failed to update usage learning:', error);
+    }
+  };
+
+  const handleClearUsage = async () => {
+    try {
+      const response = await window.fileSearchAPI.clearUsageData();
+      if (response.success && response.data) setUsageSettings(response.data);
+    } catch (error) {
+      console.error('Failed to clear usage data:', error);
+    }
+  };
 
   const handleClearHistory = async () => {
     setIsClearing(true);
@@ -146,14 +178,14 @@ export function SettingsPanel({ open, onOpenChange }: SettingsPanelProps) {
                 <div>
                   <p className="text-sm font-medium">Search History</p>
                   <p className="text-xs text-muted-foreground">
-                    {history.length} searches saved
+                    {history.totalQueries} searches saved
                   </p>
                 </div>
                 <Button
                   variant="outline"
                   size="sm"
                   onClick={handleClearHistory}
-                  disabled={isClearing || history.length === 0}
+                  disabled={isClearing || history.totalQueries === 0}
                   className="gap-2"
                 >
                   {isClearing ? (
@@ -166,6 +198,42 @@ export function SettingsPanel({ open, onOpenChange }: SettingsPanelProps) {
               </div>
             </div>
 
+            {/* Frecency Ranking */}
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium flex items-center gap-1">
+                    <TrendingUp className="h-3 w-3" />
+                    Learn From Opened Files
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Rank files you open often and recently higher
+                    {usageSettings && ` · ${usageSettings.trackedFiles} files remembered`}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    variant={usageSettings?.learningEnabled ? "default" : "outline"}
+                    size="sm"
+                    onClick={handleToggleUsageLearning}
+                    disabled={!usageSettings}
+                  >
+                    {usageSettings?.learningEnabled === false ? 'Off' : 'On'}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleClearUsage}
+                    disabled={!usageSettings || usageSettings.trackedFiles === 0}
+                    className="gap-2"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                    Clear
+                  </Button>
+                </div>
+              </div>
+            </div>
+
             {/* Cache Management */}
             <div className="space-y-3">
               <div className="flex items-center justify-between">
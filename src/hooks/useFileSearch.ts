@@ -1,93 +1,180 @@
-import { useState, useCallback, useRef } from 'react';
-import { SearchResult, FileItem, SearchFilters, IpcSearchRequest } from '@/types';
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { SearchResult, FileItem, SearchFilters, SearchSort, SearchFacets, GroupField, SavedSearch, IpcSearchRequest } from '@/types';
+import { getQuerySort, parseQuery } from '@/lib/query-parser';
 import { useSearchHistory } from './useSearchHistory';
 import { useSearchCache } from './useSearchCache';
 import { useDebouncedCallback } from './useDebounce';
 
+// The search in flight: its id, so it can be cancelled in the main process and
+// late chunks or responses of a superseded search ignored, and the chunks
+// received so far, indexed by seq
+interface ActiveSearch {
+  requestId: string;
+  query: string;
+  startTime: number;
+  sort?: SearchSort;
+  chunks: FileItem[][];
+}
+
 export function useFileSearch() {
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<SearchResult | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [filters, setFilters] = useState<SearchFilters>({});
+  const [sort, setSort] = useState<SearchSort | null>(null); // Relevance until a header is clicked
+  const [groupBy, setGroupBy] = useState<GroupField | null>(null); // Flat results until a grouped view is chosen
+  const [facets, setFacets] = useState<SearchFacets | undefined>(); // Of the first page, kept while paging
   const [currentPage, setCurrentPage] = useState(1);
-  const [itemsPerPage] = useState(50); // Items per page
-  const { addToHistory } = useSearchHistory();
+  const [itemsPerPage] = useState(500); // Items per page, streamed in chunks of 50
+  const { recordSearch, recordClick } = useSearchHistory();
   const searchCache = useSearchCache({ maxSize: 50, ttl: 10 * 60 * 1000 }); // 10 minutes
-  const abortControllerRef = useRef<AbortController | null>(null);
+  const activeSearchRef = useRef<ActiveSearch | null>(null);
+  const historyIdRef = useRef<number | null>(null); // Entry of the search shown, for clicks on its results
+  const historyRequestRef = useRef<string | null>(null);
+
+  const cancelActiveSearch = useCallback(() => {
+    const active = activeSearchRef.current;
+    if (!active) return;
+    activeSearchRef.current = null;
+    setIsStreaming(false);
+    window.fileSearchAPI.cancelSearch(active.requestId).catch(() => {
+      // Already finished; nothing to stop
+    });
+  }, []);
+
+  useEffect(() => cancelActiveSearch, [cancelActiveSearch]);
+
+  // Show results as they stream in rather than waiting for the whole page
+  useEffect(() => {
+    return window.fileSearchAPI.onSearchChunk((chunk) => {
+      const active = activeSearchRef.current;
+      if (!active || chunk.requestId !== active.requestId) return;
 
-  const performSearch = useCallback(async (query: string, searchFilters: SearchFilters = {}, page: number = 1) => {
+      active.chunks[chunk.seq] = chunk.items;
+      const items = active.chunks.flat();
+      setSearchResults({
+        items,
+        totalCount: items.length, // Until the summary arrives
+        query: active.query,
+        executionTime: Date.now() - active.startTime,
+        sort: active.sort
+      });
+      setIsLoading(false);
+    });
+  }, []);
+
+  const performSearch = useCallback(async (
+    query: string,
+    searchFilters: SearchFilters = {},
+    page: number = 1,
+    searchSort: SearchSort | null = sort,
+    searchGroupBy: GroupField | null = groupBy
+  ) => {
     if (!query.trim() && Object.keys(searchFilters).length === 0) {
       setSearchResults(null);
+      setFacets(undefined);
       return;
     }
 
     // Cancel previous search if still running
-    if (abortControllerRef.current) {
-      abortControllerRef.current.abort();
-    }
+    cancelActiveSearch();
 
     const combinedFilters = { ...filters, ...searchFilters };
     const offset = (page - 1) * itemsPerPage;
 
-    // Check cache first (include page in cache key)
-    const cacheKey = `${query.trim()}_${JSON.stringify(combinedFilters)}_${page}`;
+    // Check cache first (include page, sort and grouping in cache key)
+    const cacheKey = `${query.trim()}_${JSON.stringify(combinedFilters)}_${JSON.stringify(searchSort)}_${searchGroupBy}_${page}`;
     const cachedResult = searchCache.get(cacheKey, {});
     if (cachedResult) {
       setSearchResults(cachedResult);
+      if (page === 1) setFacets(cachedResult.facets);
       setIsLoading(false);
       setError(null);
       return;
     }
 
     setIsLoading(true);
+    setIsStreaming(true);
     setError(null);
 
-    // Create new abort controller for this search
-    abortControllerRef.current = new AbortController();
+    const requestId = crypto.randomUUID();
+    const active: ActiveSearch = {
+      requestId,
+      query: query.trim(),
+      startTime: Date.now(),
+      // As the main process will resolve it, for headers while results stream in
+      sort: getQuerySort(parseQuery(query)) ?? searchSort ?? undefined,
+      chunks: []
+    };
+    activeSearchRef.current = active;
 
     try {
       const request: IpcSearchRequest = {
+        requestId,
         query: query.trim(),
         filters: combinedFilters,
         limit: itemsPerPage,
-        offset: offset
+        offset: offset,
+        sortBy: searchSort?.sortBy,
+        sortDirection: searchSort?.sortDirection,
+        includeFacets: page === 1, // Paging doesn't change the counts
+        groupBy: searchGroupBy ?? undefined
       };
 
-      const response = await window.fileSearchAPI.searchFiles(request);
+      // Items arrive through onSearchChunk; the response is the summary
+      const response = await window.fileSearchAPI.searchStream(request);
 
-      // Check if this search was aborted
-      if (abortControllerRef.current?.signal.aborted) {
+      // Check if this search was cancelled or superseded
+      if (activeSearchRef.current !== active) {
         return;
       }
 
-      if (response.success) {
-        setSearchResults(response.data);
+      if (response.success && response.data) {
+        const result: SearchResult = {
+          items: active.chunks.flat(),
+          totalCount: response.data.totalCount,
+          query: response.data.query,
+          executionTime: response.data.executionTime,
+          sort: response.data.sort,
+          facets: response.data.facets,
+          groups: response.data.groups
+        };
+        setSearchResults(result);
+        if (page === 1) setFacets(result.facets);
 
-        // Cache the result with page info
-        const cacheKey = `${query.trim()}_${JSON.stringify(combinedFilters)}_${page}`;
-        searchCache.set(cacheKey, {}, response.data);
+        // Cache the result with page, sort and grouping info
+        searchCache.set(cacheKey, {}, result);
 
-        // Add to search history with result count
-        if (query.trim()) {
-          addToHistory(query.trim(), response.data.totalCount);
+        // Paging doesn't run a new query, so only the first page goes into history
+        if (query.trim() && page === 1) {
+          historyIdRef.current = null;
+          historyRequestRef.current = requestId;
+          recordSearch({ query: query.trim(), resultCount: result.totalCount, executionTime: result.executionTime })
+            .then(id => {
+              if (historyRequestRef.current === requestId) historyIdRef.current = id;
+            });
         }
       } else {
         setError(response.error || 'Search failed');
         setSearchResults(null);
+        setFacets(undefined);
       }
     } catch (err) {
-      if (abortControllerRef.current?.signal.aborted) {
-        return; // Ignore aborted requests
+      if (activeSearchRef.current !== active) {
+        return; // Ignore cancelled requests
       }
       setError(err instanceof Error ? err.message : 'Unknown error occurred');
       setSearchResults(null);
     } finally {
-      if (!abortControllerRef.current?.signal.aborted) {
+      if (activeSearchRef.current === active) {
+        activeSearchRef.current = null;
         setIsLoading(false);
+        setIsStreaming(false);
       }
     }
-  }, [filters, searchCache, addToHistory, itemsPerPage]);
+  }, [filters, sort, groupBy, searchCache, recordSearch, itemsPerPage, cancelActiveSearch]);
 
   // Debounced search to avoid too many API calls - only for new searches
   const [debouncedSearch] = useDebouncedCallback((query: string, searchFilters: SearchFilters) => {
@@ -100,9 +187,11 @@ export function useFileSearch() {
     if (query.trim()) {
       debouncedSearch(query, filters);
     } else {
+      cancelActiveSearch();
       setSearchResults(null);
+      setFacets(undefined);
     }
-  }, [debouncedSearch, filters]);
+  }, [debouncedSearch, filters, cancelActiveSearch]);
 
   const updateFilters = useCallback((newFilters: SearchFilters) => {
     setFilters(newFilters);
@@ -113,39 +202,69 @@ export function useFileSearch() {
     }
   }, [searchQuery, performSearch]);
 
+  const updateSort = useCallback((newSort: SearchSort) => {
+    setSort(newSort);
+    setCurrentPage(1); // Reset to first page when the order changes
+    if (searchQuery.trim()) {
+      performSearch(searchQuery, filters, 1, newSort);
+    }
+  }, [searchQuery, filters, performSearch]);
+
+  const updateGroupBy = useCallback((newGroupBy: GroupField | null) => {
+    setGroupBy(newGroupBy);
+    setCurrentPage(1); // Groups reorder the results, so earlier pages change too
+    if (searchQuery.trim()) {
+      performSearch(searchQuery, filters, 1, sort, newGroupBy);
+    }
+  }, [searchQuery, filters, sort, performSearch]);
+
+  const runSavedSearch = useCallback((saved: SavedSearch) => {
+    // performSearch adds to the current filters; clearing every current key
+    // makes the saved ones replace them
+    const clearedFilters = Object.fromEntries(Object.keys(filters).map(key => [key, undefined]));
+    setSearchQuery(saved.query);
+    setFilters(saved.filters);
+    setSort(saved.sort ?? null);
+    setCurrentPage(1);
+    performSearch(saved.query, { ...clearedFilters, ...saved.filters }, 1, saved.sort ?? null);
+  }, [filters, performSearch]);
+
   const clearSearch = useCallback(() => {
     // Cancel any ongoing search
-    if (abortControllerRef.current) {
-      abortControllerRef.current.abort();
-    }
+    cancelActiveSearch();
     setSearchQuery('');
     setSearchResults(null);
+    setFacets(undefined);
     setError(null);
     setIsLoading(false);
     setCurrentPage(1);
-  }, []);
+  }, [cancelActiveSearch]);
 
   const openFile = useCallback(async (file: FileItem) => {
     try {
       const response = await window.fileSearchAPI.openFile(file.fullPath);
       if (!response.success) {
         setError(response.error || 'Failed to open file');
+      } else if (historyIdRef.current !== null) {
+        recordClick(historyIdRef.current, file.fullPath);
       }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to open file');
     }
-  }, []);
+  }, [recordClick]);
 
   const revealFile = useCallback(async (file: FileItem) => {
     try {
       const response = await window.fileSearchAPI.openFileLocation(file.fullPath);
       if (!response.success) {
         setError(response.error || 'Failed to reveal file');
+      } else if (historyIdRef.current !== null) {
+        recordClick(historyIdRef.current, file.fullPath);
       }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to reveal file');
     }
-  }, []);
+  }, [recordClick]);
 
   // Pagination functions
   const goToPage = useCallback((page: number) => {
@@ -174,9 +293,12 @@ export function useFileSearch() {
     searchQuery,
     setSearchQuery,
     searchResults,
+    facets,
     isLoading,
+    isStreaming,
     error,
     filters,
+    sort,
     currentPage,
     totalPages,
     itemsPerPage,
@@ -184,6 +306,9 @@ export function useFileSearch() {
     hasPrevPage,
     search,
     updateFilters,
+    updateSort,
+    updateGroupBy,
+    runSavedSearch,
     clearSearch,
     openFile,
     revealFile,
@@ -0,0 +1,56 @@
+import { useState, useEffect, useCallback } from 'react';
+import { SavedSearch, SavedSearchInput } from '@/types';
+
+// Saved searches live in the main process's database; it pushes the whole
+// list, with fresh counts, whenever either changes
+export function useSavedSearches() {
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    window.fileSearchAPI.getSavedSearches()
+      .then(response => {
+        if (response.success && response.data) setSavedSearches(response.data);
+      })
+      .catch(err => console.error('Failed to load saved searches:', err));
+
+    return window.fileSearchAPI.onSavedSearchesUpdated(setSavedSearches);
+  }, []);
+
+  const saveSearch = useCallback(async (input: SavedSearchInput) => {
+    try {
+      const response = await window.fileSearchAPI.createSavedSearch(input);
+      setError(response.success ? null : response.error || 'Failed to save search');
+      return response.success ? response.data ?? null : null;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save search');
+      return null;
+    }
+  }, []);
+
+  const updateSavedSearch = useCallback(async (id: number, changes: Partial<SavedSearchInput>) => {
+    try {
+      const response = await window.fileSearchAPI.updateSavedSearch(id, changes);
+      setError(response.success ? null : response.error || 'Failed to update saved search');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update saved search');
+    }
+  }, []);
+
+  const deleteSavedSearch = useCallback(async (id: number) => {
+    try {
+      const response = await window.fileSearchAPI.deleteSavedSearch(id);
+      setError(response.success ? null : response.error || 'Failed to delete saved search');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete saved search');
+    }
+  }, []);
+
+  return {
+    savedSearches,
+    error,
+    saveSearch,
+    updateSavedSearch,
+    deleteSavedSearch
+  };
+}
@@ -1,93 +1,68 @@
 import { useState, useEffect, useCallback } from 'react';
+import { SearchHistory, SearchHistoryRecord } from '@/types';
 
-interface SearchHistoryItem {
-  query: string;
-  timestamp: number;
-  resultCount?: number;
-}
-
-const STORAGE_KEY = 'file-search-history';
-const MAX_HISTORY_ITEMS = 50;
+const EMPTY_HISTORY: SearchHistory = { recent: [], popular: [], zeroResults: [], totalQueries: 0 };
 
+// History is kept by the main process, which pushes the updated lists to every
+// window after each change, so all users of this hook show the same entries
 export function useSearchHistory() {
-  const [history, setHistory] = useState<SearchHistoryItem[]>([]);
+  const [history, setHistory] = useState<SearchHistory>(EMPTY_HISTORY);
 
-  // Load history from localStorage on mount
   useEffect(() => {
+    window.fileSearchAPI.getSearchHistory()
+      .then(response => {
+        if (response.success && response.data) setHistory(response.data);
+      })
+      .catch(error => console.warn('Failed to load search history:', error));
+
+    return window.fileSearchAPI.onSearchHistoryUpdated(setHistory);
+  }, []);
+
+  /** Records a search that was run; resolves to its id for recordClick, or null. */
+  const recordSearch = useCallback(async (record: SearchHistoryRecord): Promise<number | null> => {
+    if (!record.query.trim()) return null;
+
     try {
-      const stored = localStorage.getItem(STORAGE_KEY);
-      if (stored) {
-        const parsed = JSON.parse(stored);
-        setHistory(Array.isArray(parsed) ? parsed : []);
-      }
+      const response = await window.fileSearchAPI.recordSearch(record);
+      return response.success && response.data ? response.data.id : null;
     } catch (error) {
-      console.warn('Failed to load search history:', error);
+      console.warn('Failed to record search:', error);
+      return null;
     }
   }, []);
 
-  // Save history to localStorage whenever it changes
-  useEffect(() => {
+  const recordClick = useCallback(async (historyId: number, filePath: string) => {
     try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(history));
+      await window.fileSearchAPI.recordSearchClick(historyId, filePath);
     } catch (error) {
-      console.warn('Failed to save search history:', error);
+      console.warn('Failed to record search click:', error);
     }
-  }, [history]);
-
-  const addToHistory = useCallback((query: string, resultCount?: number) => {
-    if (!query.trim()) return;
-
-    setHistory(prev => {
-      // Remove existing entry with same query
-      const filtered = prev.filter(item => item.query !== query);
-      
-      // Add new entry at the beginning
-      const newHistory = [
-        { query, timestamp: Date.now(), resultCount },
-        ...filtered
-      ];
-
-      // Limit to MAX_HISTORY_ITEMS
-      return newHistory.slice(0, MAX_HISTORY_ITEMS);
-    });
   }, []);
 
-  const removeFromHistory = useCallback((query: string) => {
-    setHistory(prev => prev.filter(item => item.query !== query));
+  const removeFromHistory = useCallback(async (query: string) => {
+    try {
+      await window.fileSearchAPI.removeSearchHistory(query);
+    } catch (error) {
+      console.warn('Failed to remove search from history:', error);
+    }
   }, []);
 
-  const clearHistory = useCallback(() => {
-    setHistory([]);
+  const clearHistory = useCallback(async () => {
+    try {
+      await window.fileSearchAPI.clearSearchHistory();
+    } catch (error) {
+      console.warn('Failed to clear search history:', error);
+    }
   }, []);
 
-  const getRecentSearches = useCallback((limit: number = 10) => {
-    return history.slice(0, limit);
-  }, [history]);
-
-  const getPopularSearches = useCallback((limit: number = 10) => {
-    // Group by query and count occurrences
-    const queryCount = history.reduce((acc, item) => {
-      acc[item.query] = (acc[item.query] || 0) + 1;
-      return acc;
-    }, {} as Record<string, number>);
-
-    // Sort by count and return top queries
-    return Object.entries(queryCount)
-      .sort(([, a], [, b]) => b - a)
-      .slice(0, limit)
-      .map(([query, count]) => ({
-        query,
-        count,
-        lastUsed: history.find(item => item.query === query)?.timestamp || 0
-      }));
-  }, [history]);
-
   return {
     history,
-    addToHistory,
+    recentSearches: history.recent,
+    popularSearches: history.popular,
+    zeroResultSearches: history.zeroResults,
+    recordSearch,
+    recordClick,
     removeFromHistory,
-    clearHistory,
-    getRecentSearches,
-    getPopularSearches
+    clearHistory
   };
 }
@@ -0,0 +1,38 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Suggestion, SuggestionKind } from '@/types';
+import { getCompletionContext } from '@/lib/autocomplete';
+
+// Completions for the word at the cursor, fetched from the index as it is typed.
+// Pass a null cursor while the search box isn't focused.
+export function useSuggestions(query: string, cursor: number | null) {
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+
+  const context = useMemo(
+    () => (cursor === null ? null : getCompletionContext(query, cursor)),
+    [query, cursor]
+  );
+
+  // Moving the cursor within a word doesn't change what is asked for
+  const kind: SuggestionKind | undefined = context?.request.kind;
+  const prefix = context?.request.prefix;
+
+  useEffect(() => {
+    if (!kind || prefix === undefined) {
+      setSuggestions([]);
+      return;
+    }
+
+    let isCurrent = true;
+    window.fileSearchAPI.getSuggestions({ kind, prefix })
+      .then(response => {
+        if (isCurrent) setSuggestions(response.success && response.data ? response.data : []);
+      })
+      .catch(error => console.warn('Failed to load suggestions:', error));
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [kind, prefix]);
+
+  return { context, suggestions: context ? suggestions : [] };
+}
@@ -0,0 +1,77 @@
+// Finds what the word at the search box's cursor is completing, and splices a
+// chosen suggestion back into the query. Shares the tokenizer with the query
+// parser, so keep it free of Node and DOM dependencies.
+
+import { Suggestion, SuggestionRequest } from '../types';
+import { tokenizeQuery } from './query-parser';
+
+// Plain words shorter than this suggest nothing; one letter matches too much to help
+const MIN_NAME_PREFIX = 2;
+
+const DIRECTORY_FIELDS = ['in', 'path', 'parent'];
+
+export interface CompletionContext {
+  request: SuggestionRequest;
+  start: number; // The word replaced by a suggestion, end exclusive
+  end: number;
+  head: string; // Kept ahead of the value: "ext:", "in:", or "" for a plain word
+  listed: string; // Earlier items of a list value, "jpg," in ext:jpg,pn
+  quoted: boolean;
+}
+
+/** What the word ending at or containing `cursor` completes, or null for nothing. */
+export function getCompletionContext(query: string, cursor: number): CompletionContext | null {
+  const token = tokenizeQuery(query).find(token => token.start < cursor && cursor <= token.end);
+  if (!token) return null;
+
+  if (token.kind === 'word') {
+    const prefix = query.slice(token.start, cursor);
+    if (prefix.length < MIN_NAME_PREFIX) return null;
+    return { request: { kind: 'name', prefix }, start: token.start, end: token.end, head: '', listed: '', quoted: false };
+  }
+
+  if (token.kind !== 'field' || !token.field) return null;
+
+  const isExtension = token.field === 'ext';
+  if (!isExtension && !DIRECTORY_FIELDS.includes(token.field)) return null;
+
+  const valueStart = query.indexOf(':', token.start) + 1;
+  if (cursor < valueStart) return null; // Still typing the operator
+
+  const quoted = query[valueStart] === '"';
+  const typed = query.slice(quoted ? valueStart + 1 : valueStart, cursor);
+  if (typed.includes('"')) return null; // After the closing quote
+
+  const listEnd = isExtension ? typed.lastIndexOf(',') + 1 : 0;
+  return {
+    request: { kind: isExtension ? 'extension' : 'folder', prefix: typed.slice(listEnd) },
+    start: token.start,
+    end: token.end,
+    head: query.slice(token.start, valueStart),
+    listed: typed.slice(0, listEnd),
+    quoted
+  };
+}
+
+/**
+ * The query with the context's word replaced by the suggestion, and where the
+ * cursor goes. Values with spaces get quoted. A folder takes no trailing space
+ * and keeps the cursor inside its quotes, so the path can be continued.
+ */
+export function applySuggestion(
+  query: string,
+  context: CompletionContext,
+  suggestion: Suggestion
+): { query: string; cursor: number } {
+  const quote = context.quoted || /[\s()]/.test(suggestion.value) ? '"' : '';
+  const word = context.head + quote + context.listed + suggestion.value + quote;
+  const rest = query.slice(context.end);
+  const separator = suggestion.kind === 'folder' || /^\s/.test(rest) ? '' : ' ';
+
+  return {
+    query: query.slice(0, context.start) + word + separator + rest,
+    cursor: suggestion.kind === 'folder'
+      ? context.start + word.length - quote.length
+      : context.start + word.length + separator.length
+  };
+}
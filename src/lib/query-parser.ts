@@ -0,0 +1,438 @@
+import { FileType, SearchSort, SortDirection, SortField } from '../types';
+
+// Shared by the main process and the renderer, so keep this module free of
+// Node, Electron and DOM dependencies and of '@/' path aliases.
+
+export const QUERY_FIELDS = [
+  'ext', 'type', 'size', 'date', 'modified', 'created', 'accessed',
+  'regex', 'name', 'path', 'in', 'parent', 'depth', 'sort'
+] as const;
+
+export type QueryField = typeof QUERY_FIELDS[number];
+
+export type QueryNode =
+  | { type: 'and'; children: QueryNode[] }
+  | { type: 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode }
+  | { type: 'term'; value: string; quoted: boolean }
+  | { type: 'glob'; pattern: string } // Unquoted word containing * or ?
+  | { type: 'field'; field: QueryField; value: string };
+
+export type QueryTokenKind = 'word' | 'phrase' | 'glob' | 'field' | 'lparen' | 'rparen' | 'and' | 'or' | 'not' | 'negate';
+
+export interface QueryToken {
+  kind: QueryTokenKind;
+  value: string;
+  field?: QueryField;
+  start: number; // Offsets into the original query, end exclusive
+  end: number;
+}
+
+const FILE_TYPE_ALIASES: Record<string, FileType> = {
+  doc: FileType.DOCUMENT,
+  docs: FileType.DOCUMENT,
+  document: FileType.DOCUMENT,
+  documents: FileType.DOCUMENT,
+  text: FileType.DOCUMENT,
+  img: FileType.IMAGE,
+  image: FileType.IMAGE,
+  images: FileType.IMAGE,
+  picture: FileType.IMAGE,
+  vid: FileType.VIDEO,
+  video: FileType.VIDEO,
+  videos: FileType.VIDEO,
+  movie: FileType.VIDEO,
+  audio: FileType.AUDIO,
+  music: FileType.AUDIO,
+  sound: FileType.AUDIO,
+  archive: FileType.ARCHIVE,
+  zip: FileType.ARCHIVE,
+  compressed: FileType.ARCHIVE,
+  code: FileType.CODE,
+  source: FileType.CODE,
+  folder: FileType.DIRECTORY,
+  directory: FileType.DIRECTORY,
+  dir: FileType.DIRECTORY
+};
+
+/**
+ * Maps `type:` values and their common aliases onto FileType. Unknown values
+ * are returned lower-cased so they can still match a stored type.
+ */
+export function resolveFileType(value: string): FileType | string {
+  const normalized = value.toLowerCase();
+  return FILE_TYPE_ALIASES[normalized] ?? normalized;
+}
+
+const SORT_FIELD_ALIASES: Record<string, SortField> = {
+  relevance: 'relevance',
+  rank: 'relevance',
+  name: 'name',
+  size: 'size',
+  date: 'dateModified',
+  modified: 'dateModified',
+  mtime: 'dateModified',
+  created: 'dateCreated',
+  accessed: 'dateAccessed',
+  atime: 'dateAccessed',
+  path: 'path',
+  folder: 'path',
+  type: 'type',
+  kind: 'type',
+  ext: 'type'
+};
+
+/** Direction a sort starts in: largest and newest first, text A to Z. */
+export function defaultSortDirection(sortBy: SortField): SortDirection {
+  return sortBy === 'relevance' || sortBy === 'size' || sortBy.startsWith('date') ? 'desc' : 'asc';
+}
+
+/** Parses a `sort:` value: a field with an optional direction, e.g. size-desc or name. */
+export function parseSortValue(value: string): SearchSort | null {
+  const match = value.toLowerCase().match(/^([a-z]+)(?:-(asc|desc))?$/);
+  const sortBy = match ? SORT_FIELD_ALIASES[match[1]] : undefined;
+  if (!match || !sortBy) return null;
+
+  return { sortBy, sortDirection: (match[2] as SortDirection | undefined) ?? defaultSortDirection(sortBy) };
+}
+
+function isQueryField(value: string): value is QueryField {
+  return (QUERY_FIELDS as readonly string[]).includes(value);
+}
+
+/**
+ * Finds the end of an unquoted regex value starting at `from`. Regexes use
+ * parentheses themselves, so only whitespace or a ')' that closes a group
+ * opened before the operator ends the value: (regex:^(a|b)x) keeps "^(a|b)x".
+ */
+function readRegexValue(input: string, from: number): number {
+  let depth = 0;
+  let i = from;
+
+  while (i < input.length && !/\s/.test(input[i])) {
+    const char = input[i];
+    if (char === '\\') {
+      i += 2;
+      continue;
+    }
+    if (char === '(') depth++;
+    if (char === ')') {
+      if (depth === 0) break;
+      depth--;
+    }
+    i++;
+  }
+
+  return Math.min(i, input.length);
+}
+
+/**
+ * Translates a glob into a regular expression source. `*` and `?` stay within
+ * one path segment, `**` crosses segments, and '/' matches either separator.
+ */
+export function globToRegExpSource(glob: string): string {
+  let source = '';
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === '*' && glob[i + 1] === '*') {
+      if (glob[i + 2] === '/' || glob[i + 2] === '\\') {
+        source += '(?:.*[\\\\/])?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^\\\\/]*';
+    } else if (char === '?') {
+      source += '[^\\\\/]';
+    } else if (char === '/' || char === '\\') {
+      source += '[\\\\/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return source;
+}
+
+/** Globs containing a separator match against the path, others against the name. */
+export function isPathGlob(glob: string): boolean {
+  return /[\\/]/.test(glob);
+}
+
+/**
+ * Splits a query into tokens. Never throws: an unterminated quote runs to the
+ * end of the input, and `name:value` with an unknown name stays a plain word
+ * so things like "C:" or "10:30" are still searchable.
+ */
+export function tokenizeQuery(input: string): QueryToken[] {
+  const tokens: QueryToken[] = [];
+  let i = 0;
+
+  const readQuoted = (from: number): { value: string; end: number } => {
+    const close = input.indexOf('"', from + 1);
+    const end = close === -1 ? input.length : close + 1;
+    return { value: input.slice(from + 1, close === -1 ? input.length : close), end };
+  };
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === '(' || char === ')') {
+      tokens.push({ kind: char === '(' ? 'lparen' : 'rparen', value: char, start: i, end: i + 1 });
+      i++;
+      continue;
+    }
+
+    if (char === '"') {
+      const { value, end } = readQuoted(i);
+      tokens.push({ kind: 'phrase', value, start: i, end });
+      i = end;
+      continue;
+    }
+
+    // A leading '-' negates whatever follows it: -draft, -ext:tmp, -"a b", -(x OR y)
+    if (char === '-' && i + 1 < input.length && !/\s/.test(input[i + 1])) {
+      tokens.push({ kind: 'negate', value: char, start: i, end: i + 1 });
+      i++;
+      continue;
+    }
+
+    const start = i;
+    while (i < input.length && !/[\s()]/.test(input[i])) {
+      const colon = input[i] === ':' ? input.slice(start, i).toLowerCase() : null;
+
+      // Quoted field values may contain spaces: in:"My Documents"
+      if (colon && isQueryField(colon) && input[i + 1] === '"') {
+        const { value, end } = readQuoted(i + 1);
+        tokens.push({ kind: 'field', field: colon, value, start, end });
+        i = end;
+        break;
+      }
+
+      if (colon === 'regex') {
+        i = readRegexValue(input, i + 1);
+        break;
+      }
+      i++;
+    }
+
+    if (tokens.length > 0 && tokens[tokens.length - 1].start === start) {
+      continue; // Quoted field value already pushed
+    }
+
+    const word = input.slice(start, i);
+    const colonIndex = word.indexOf(':');
+    const fieldName = colonIndex > 0 ? word.slice(0, colonIndex).toLowerCase() : '';
+
+    if (word === 'AND' || word === 'OR' || word === 'NOT') {
+      tokens.push({ kind: word.toLowerCase() as QueryTokenKind, value: word, start, end: i });
+    } else if (isQueryField(fieldName)) {
+      tokens.push({ kind: 'field', field: fieldName, value: word.slice(colonIndex + 1), start, end: i });
+    } else if (/[*?]/.test(word)) {
+      tokens.push({ kind: 'glob', value: word, start, end: i });
+    } else {
+      tokens.push({ kind: 'word', value: word, start, end: i });
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Parses a query into an AST. Grammar, loosest binding first:
+ *
+ *   query   := or*
+ *   or      := and ("OR" and)*
+ *   and     := unary ("AND"? unary)*
+ *   unary   := ("NOT" | "-") unary | primary
+ *   primary := "(" or ")" | word | glob | "quoted phrase" | field:value
+ *
+ * Input that is still being typed is accepted: missing closing parentheses
+ * are implied, stray ones and dangling operators are dropped. Returns null
+ * when nothing searchable remains.
+ */
+export function parseQuery(input: string): QueryNode | null {
+  const tokens = tokenizeQuery(input);
+  let pos = 0;
+
+  const peek = (): QueryToken | undefined => tokens[pos];
+
+  const parseOr = (): QueryNode | null => {
+    const children: QueryNode[] = [];
+    const first = parseAnd();
+    if (first) children.push(first);
+
+    while (peek()?.kind === 'or') {
+      pos++;
+      const next = parseAnd();
+      if (next) children.push(next);
+    }
+
+    return combine('or', children);
+  };
+
+  const parseAnd = (): QueryNode | null => {
+    const children: QueryNode[] = [];
+
+    while (pos < tokens.length) {
+      const token = peek()!;
+      if (token.kind === 'or' || token.kind === 'rparen') break;
+      if (token.kind === 'and') {
+        pos++;
+        continue;
+      }
+      const node = parseUnary();
+      if (node) children.push(node);
+    }
+
+    return combine('and', children);
+  };
+
+  const parseUnary = (): QueryNode | null => {
+    const token = peek();
+    if (token && (token.kind === 'not' || token.kind === 'negate')) {
+      pos++;
+      const child = parseUnary();
+      return child ? { type: 'not', child } : null;
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): QueryNode | null => {
+    const token = peek();
+    if (!token) return null;
+    pos++;
+
+    switch (token.kind) {
+      case 'lparen': {
+        const node = parseOr();
+        if (peek()?.kind === 'rparen') pos++;
+        return node;
+      }
+      case 'word':
+        return { type: 'term', value: token.value, quoted: false };
+      case 'phrase':
+        return token.value.trim() ? { type: 'term', value: token.value, quoted: true } : null;
+      case 'glob':
+        return { type: 'glob', pattern: token.value };
+      case 'field':
+        return token.value ? { type: 'field', field: token.field!, value: token.value } : null;
+      default:
+        // Operators with nothing to apply to, e.g. a trailing "OR"
+        return null;
+    }
+  };
+
+  const roots: QueryNode[] = [];
+  while (pos < tokens.length) {
+    const node = parseOr();
+    if (node) roots.push(node);
+    // Skip an unmatched ')' and keep going
+    if (peek()?.kind === 'rparen' || peek()?.kind === 'or') pos++;
+  }
+
+  return combine('and', roots);
+}
+
+function combine(type: 'and' | 'or', children: QueryNode[]): QueryNode | null {
+  if (children.length === 0) return null;
+  if (children.length === 1) return children[0];
+
+  // Flatten nested nodes of the same kind: (a b) c -> a b c
+  const flattened = children.flatMap(child => (child.type === type ? child.children : [child]));
+  return { type, children: flattened };
+}
+
+/**
+ * The order asked for by `sort:` operators outside any NOT; the last valid one
+ * wins. `sort:` never filters, so the compiler ignores it.
+ */
+export function getQuerySort(node: QueryNode | null): SearchSort | null {
+  if (!node) return null;
+
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      return node.children.reduce<SearchSort | null>((sort, child) => getQuerySort(child) ?? sort, null);
+    case 'field':
+      return node.field === 'sort' ? parseSortValue(node.value) : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Text terms in the query that a result is expected to contain, i.e. every
+ * term not under a NOT. Used for highlighting and relevance scoring.
+ */
+export function getTextTerms(node: QueryNode | null): string[] {
+  if (!node) return [];
+
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      return node.children.flatMap(getTextTerms);
+    case 'term':
+      return [node.value];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Regular expressions for the parts of a file name a query matched: text
+ * terms and `name:` values literally, `regex:` patterns as written and name
+ * globs translated.
+ * Negated parts and invalid patterns are skipped.
+ */
+export function getHighlightPatterns(query: string): RegExp[] {
+  const patterns: RegExp[] = [];
+
+  const visit = (node: QueryNode | null) => {
+    if (!node) return;
+
+    switch (node.type) {
+      case 'and':
+      case 'or':
+        node.children.forEach(visit);
+        break;
+      case 'term':
+        if (node.value.trim()) {
+          patterns.push(new RegExp(node.value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'gi'));
+        }
+        break;
+      case 'glob': {
+        // Path globs highlight their last segment, which applies to the name
+        const segments = node.pattern.split(/[\\/]/);
+        const source = `^${globToRegExpSource(segments[segments.length - 1])}$`;
+        patterns.push(new RegExp(source, 'gi'));
+        break;
+      }
+      case 'field':
+        if (node.field === 'name') {
+          visit(/[*?]/.test(node.value)
+            ? { type: 'glob', pattern: node.value }
+            : { type: 'term', value: node.value, quoted: true });
+        } else if (node.field === 'regex') {
+          try {
+            patterns.push(new RegExp(node.value, 'gi'));
+          } catch {
+            // Still being typed; nothing to highlight yet
+          }
+        }
+        break;
+    }
+  };
+
+  visit(parseQuery(query));
+  return patterns;
+}
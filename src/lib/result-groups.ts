@@ -0,0 +1,15 @@
+// Grouping of search results by parent directory or FileType. The main
+// process orders and counts groups with the same keys the renderer buckets
+// items by, so keep it free of Node and DOM dependencies.
+
+import { FileItem, GroupField } from '../types';
+
+/**
+ * The key of the group a result belongs to. A folder's key matches the
+ * `parentPath` column: the full path without "/name".
+ */
+export function getGroupKey(file: FileItem, groupBy: GroupField): string {
+  return groupBy === 'folder'
+    ? file.fullPath.slice(0, file.fullPath.length - file.name.length - 1)
+    : file.type;
+}
@@ -0,0 +1,143 @@
+// The one `size:` grammar, shared by the query compiler in the main process
+// and the size filter in the renderer. Like query-parser.ts, keep it free of
+// Node, Electron and DOM dependencies.
+
+/** Inclusive byte bounds; a missing bound is open. */
+export interface SizeRange {
+  min?: number;
+  max?: number;
+}
+
+export interface SizeBucket {
+  name: string;
+  label: string;
+  range: SizeRange;
+}
+
+const KB = 1024;
+const MB = 1024 * KB;
+const GB = 1024 * MB;
+const TB = 1024 * GB;
+
+const SIZE_UNITS: Record<string, number> = {
+  b: 1,
+  k: KB,
+  kb: KB,
+  m: MB,
+  mb: MB,
+  g: GB,
+  gb: GB,
+  t: TB,
+  tb: TB
+};
+
+export const SIZE_BUCKETS: SizeBucket[] = [
+  { name: 'empty', label: 'Empty', range: { min: 0, max: 0 } },
+  { name: 'tiny', label: 'Tiny (< 10 KB)', range: { min: 0, max: 10 * KB - 1 } },
+  { name: 'small', label: 'Small (10–100 KB)', range: { min: 10 * KB, max: 100 * KB - 1 } },
+  { name: 'medium', label: 'Medium (100 KB–1 MB)', range: { min: 100 * KB, max: MB - 1 } },
+  { name: 'large', label: 'Large (1–16 MB)', range: { min: MB, max: 16 * MB - 1 } },
+  { name: 'huge', label: 'Huge (16–128 MB)', range: { min: 16 * MB, max: 128 * MB - 1 } },
+  { name: 'gigantic', label: 'Gigantic (> 128 MB)', range: { min: 128 * MB } }
+];
+
+// How close a bare size has to be: size:10mb matches 9–11 MB
+const APPROXIMATE_TOLERANCE = 0.1;
+
+/** Bytes for an amount with an optional unit ("1.5gb", "10 MB", "512"), or null. */
+export function parseSize(value: string): number | null {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?|\.\d+)\s*([a-z]*)$/i);
+  if (!match) return null;
+
+  const unit = SIZE_UNITS[(match[2] || 'b').toLowerCase()];
+  return unit ? Math.round(parseFloat(match[1]) * unit) : null;
+}
+
+/**
+ * Parses a `size:` value. Units are binary (1 KB = 1024 bytes) and amounts
+ * may be decimal.
+ *
+ *   10MB..1GB  10MB..  ..1GB    inclusive range, either end open
+ *   >10MB  >=1.5gb  <1k  <=2mb  comparisons
+ *   10MB+                       at least
+ *   =4096                       exactly
+ *   10MB                        within 10% of
+ *   empty tiny small medium large huge gigantic
+ */
+export function parseSizeQuery(value: string): SizeRange | null {
+  const normalized = value.trim().toLowerCase();
+  if (!normalized) return null;
+
+  const bucket = SIZE_BUCKETS.find(candidate => candidate.name === normalized);
+  if (bucket) return { ...bucket.range };
+
+  const range = normalized.match(/^(.*?)\.\.(.*)$/);
+  if (range) {
+    const min = range[1] ? parseSize(range[1]) : undefined;
+    const max = range[2] ? parseSize(range[2]) : undefined;
+    if (min === null || max === null || (min === undefined && max === undefined)) return null;
+    return { min, max };
+  }
+
+  if (normalized.endsWith('+')) {
+    const min = parseSize(normalized.slice(0, -1));
+    return min === null ? null : { min };
+  }
+
+  const comparison = normalized.match(/^([<>]=?|=)(.+)$/);
+  if (comparison) {
+    const bytes = parseSize(comparison[2]);
+    if (bytes === null) return null;
+
+    // Sizes are whole bytes, so strict bounds become inclusive ones
+    switch (comparison[1]) {
+      case '>': return { min: bytes + 1 };
+      case '>=': return { min: bytes };
+      case '<': return { max: Math.max(0, bytes - 1) };
+      case '<=': return { max: bytes };
+      default: return { min: bytes, max: bytes };
+    }
+  }
+
+  const bytes = parseSize(normalized);
+  if (bytes === null) return null;
+  return {
+    min: Math.floor(bytes * (1 - APPROXIMATE_TOLERANCE)),
+    max: Math.ceil(bytes * (1 + APPROXIMATE_TOLERANCE))
+  };
+}
+
+export function formatSize(bytes: number): string {
+  if (bytes < KB) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let value = bytes / KB;
+  let index = 0;
+  while (value >= 1024 && index < units.length - 1) {
+    value /= 1024;
+    index++;
+  }
+  return `${parseFloat(value.toFixed(1))} ${units[index]}`;
+}
+
+/** The bucket whose range is exactly `range`, if any. */
+export function findSizeBucket(range: SizeRange): SizeBucket | undefined {
+  return SIZE_BUCKETS.find(bucket => bucket.range.min === range.min && bucket.range.max === range.max);
+}
+
+/** Short human-readable form for filter chips, e.g. "10 MB – 1 GB" or "Huge (16–128 MB)". */
+export function formatSizeRange(range: SizeRange): string {
+  const bucket = findSizeBucket(range);
+  if (bucket) return bucket.label;
+
+  const hasMin = range.min !== undefined && range.min > 0;
+  const hasMax = range.max !== undefined && Number.isFinite(range.max);
+
+  if (hasMin && hasMax) {
+    return range.min === range.max
+      ? formatSize(range.min!)
+      : `${formatSize(range.min!)} – ${formatSize(range.max!)}`;
+  }
+  if (hasMin) return `≥ ${formatSize(range.min!)}`;
+  if (hasMax) return `≤ ${formatSize(range.max!)}`;
+  return 'Any size';
+}
@@ -0,0 +1,110 @@
+// Word-boundary matching as in IDE file pickers: "ufs" finds useFileSearch.ts
+// and "sr" finds SearchResults.tsx. Shared by ranking in the main process and
+// highlighting in the renderer, so keep it free of Node and DOM dependencies.
+
+export interface WordMatch {
+  score: number;
+  positions: number[]; // Indexes of the matched characters in the text
+}
+
+const SEPARATOR = /[\s_\-.]/;
+const LOWER = /\p{Ll}/u;
+const UPPER = /\p{Lu}/u;
+const DIGIT = /\p{N}/u;
+
+/**
+ * Whether a word starts at `index`: the first character, anything after a
+ * separator, an upper-case letter after a lower-case one (fileSearch), the last
+ * capital of a run followed by lower case (XMLParser) and digit/letter changes.
+ */
+export function isWordStart(text: string, index: number): boolean {
+  const char = text[index];
+  if (SEPARATOR.test(char)) return false;
+  if (index === 0) return true;
+
+  const previous = text[index - 1];
+  if (SEPARATOR.test(previous)) return true;
+  if (UPPER.test(char) && LOWER.test(previous)) return true;
+  if (UPPER.test(char) && UPPER.test(previous) && index + 1 < text.length && LOWER.test(text[index + 1])) return true;
+  return DIGIT.test(char) !== DIGIT.test(previous);
+}
+
+/** First letter of every word, lower-cased: "useFileSearch.ts" -> "ufst". */
+export function getInitials(text: string): string {
+  let initials = '';
+  for (let i = 0; i < text.length; i++) {
+    if (isWordStart(text, i)) initials += text[i];
+  }
+  return initials.toLowerCase();
+}
+
+/** Query terms worth trying as initials: a few letters or digits, nothing else. */
+export function isAcronymCandidate(term: string): boolean {
+  return /^[\p{L}\p{N}]{2,8}$/u.test(term);
+}
+
+// Scoring per matched character
+const WORD_START_BONUS = 8;
+const FIRST_CHARACTER_BONUS = 4;
+const CONSECUTIVE_BONUS = 5;
+
+// Lower-cases one character at a time, so indexes keep pointing into the
+// original string. A few characters grow ("İ" becomes "i" plus a combining
+// dot); those keep only the base letter.
+function foldCase(text: string): string[] {
+  return Array.from({ length: text.length }, (_, i) => text[i].toLowerCase()[0]);
+}
+
+/**
+ * Matches `query` against `text` case-insensitively, where every query
+ * character must either start a word or directly follow the previously
+ * matched character. "ufs" and "usefs" match useFileSearch, "ile" does not.
+ * Among all ways to match, returns the highest scoring one, or null.
+ */
+export function matchWordBoundaries(query: string, text: string): WordMatch | null {
+  const pattern = foldCase(query);
+  const lower = foldCase(text);
+  if (pattern.length === 0 || pattern.length > text.length) return null;
+
+  const wordStarts = Array.from({ length: text.length }, (_, i) => isWordStart(text, i));
+  // Keyed by (qi, ti): the best way to match pattern[qi..] with pattern[qi] at text[ti]
+  const memo = new Map<number, WordMatch | null>();
+
+  const matchFrom = (qi: number, ti: number): WordMatch | null => {
+    const key = qi * (text.length + 1) + ti;
+    if (memo.has(key)) return memo.get(key)!;
+
+    let result: WordMatch | null = null;
+    if (lower[ti] === pattern[qi]) {
+      const own = 1 +
+        (wordStarts[ti] ? WORD_START_BONUS : 0) +
+        (ti === 0 ? FIRST_CHARACTER_BONUS : 0);
+
+      if (qi === pattern.length - 1) {
+        result = { score: own, positions: [ti] };
+      } else {
+        // Next character: right after this one, or at any later word start
+        for (let next = ti + 1; next < text.length; next++) {
+          if (next !== ti + 1 && !wordStarts[next]) continue;
+          const rest = matchFrom(qi + 1, next);
+          if (!rest) continue;
+          const score = own + rest.score + (next === ti + 1 ? CONSECUTIVE_BONUS : 0);
+          if (!result || score > result.score) {
+            result = { score, positions: [ti, ...rest.positions] };
+          }
+        }
+      }
+    }
+
+    memo.set(key, result);
+    return result;
+  };
+
+  let best: WordMatch | null = null;
+  for (let ti = 0; ti < text.length; ti++) {
+    if (!wordStarts[ti]) continue;
+    const match = matchFrom(0, ti);
+    if (match && (!best || match.score > best.score)) best = match;
+  }
+  return best;
+}
@@ -1,26 +1,52 @@
-import { IpcSearchRequest, IpcIndexRequest, IpcResponse } from './index'
+import { IpcSearchRequest, IpcIndexRequest, IpcResponse, DatabaseStatus, UsageSettings, SearchChunk, SearchStreamSummary, SavedSearch, SavedSearchInput, SearchHistory, SearchHistoryRecord, Suggestion, SuggestionRequest } from './index'
 
 declare global {
   interface Window {
     fileSearchAPI: {
       // Search operations
       searchFiles: (request: IpcSearchRequest) => Promise<IpcResponse>
+      searchStream: (request: IpcSearchRequest) => Promise<IpcResponse<SearchStreamSummary>>
+      cancelSearch: (requestId: string) => Promise<IpcResponse>
+
+      // Saved searches
+      getSavedSearches: () => Promise<IpcResponse<SavedSearch[]>>
+      createSavedSearch: (input: SavedSearchInput) => Promise<IpcResponse<SavedSearch>>
+      updateSavedSearch: (id: number, changes: Partial<SavedSearchInput>) => Promise<IpcResponse<SavedSearch>>
+      deleteSavedSearch: (id: number) => Promise<IpcResponse>
+
+      // Search history
+      getSearchHistory: () => Promise<IpcResponse<SearchHistory>>
+      recordSearch: (record: SearchHistoryRecord) => Promise<IpcResponse<{ id: number }>>
+      recordSearchClick: (id: number, filePath: string) => Promise<IpcResponse>
+      removeSearchHistory: (query: string) => Promise<IpcResponse>
+      clearSearchHistory: () => Promise<IpcResponse>
+      getSuggestions: (request: SuggestionRequest) => Promise<IpcResponse<Suggestion[]>>
 
       // Indexing operations
       startIndexing: (request: IpcIndexRequest) => Promise<IpcResponse>
+      resumeIndexing: () => Promise<IpcResponse>
       stopIndexing: () => Promise<IpcResponse>
       getIndexingProgress: () => Promise<IpcResponse>
       getFileCount: () => Promise<IpcResponse>
+      getDatabaseStatus: () => Promise<IpcResponse<DatabaseStatus>>
 
       // File operations
       openFile: (filePath: string) => Promise<IpcResponse>
       openFileLocation: (filePath: string) => Promise<IpcResponse>
 
+      // Frecency ranking
+      getUsageSettings: () => Promise<IpcResponse<UsageSettings>>
+      setUsageLearning: (enabled: boolean) => Promise<IpcResponse<UsageSettings>>
+      clearUsageData: () => Promise<IpcResponse<UsageSettings>>
+
       // System operations
       getSystemDrives: () => Promise<IpcResponse>
 
       // Event listeners
       onIndexingProgress: (callback: (progress: any) => void) => void
+      onSearchChunk: (callback: (chunk: SearchChunk) => void) => () => void
+      onSavedSearchesUpdated: (callback: (searches: SavedSearch[]) => void) => () => void
+      onSearchHistoryUpdated: (callback: (history: SearchHistory) => void) => () => void
       onIndexingComplete: (callback: () => void) => void
       onIndexingError: (callback: (error: string) => void) => void
       removeAllListeners: (channel: string) => void
@@ -40,6 +66,7 @@ declare global {
       onAutoStartIndexing: (callback: () => void) => void
       onStartIndexingFromTray: (callback: () => void) => void
       onShowTrayNotification: (callback: () => void) => void
+      onRunSavedSearch: (callback: (search: SavedSearch) => void) => void
     }
 
     ipcRenderer: {
@@ -7,8 +7,10 @@ export interface FileItem {
   size: number;
   dateModified: Date;
   dateCreated: Date;
+  dateAccessed?: Date; // Missing for rows indexed before it was recorded
   isDirectory: boolean;
   type: FileType;
+  entryCount?: number; // Directories only: entries directly inside, with `size` the total of everything below
 }
 
 export enum FileType {
@@ -33,15 +35,133 @@ export interface SearchFilters {
   sizeMin?: number;
   sizeMax?: number;
   dateModifiedFrom?: Date;
-  dateModifiedTo?: Date;
+  dateModifiedTo?: Date; // Date ends are exclusive, matching the facet periods
+  dateCreatedFrom?: Date;
+  dateCreatedTo?: Date;
+  dateAccessedFrom?: Date;
+  dateAccessedTo?: Date;
+  folders?: string[]; // Absolute directories; results anywhere below any of them
   includeDirectories?: boolean;
 }
 
+export type SortField = 'relevance' | 'name' | 'size' | 'dateModified' | 'dateCreated' | 'dateAccessed' | 'path' | 'type';
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface SearchSort {
+  sortBy: SortField;
+  sortDirection: SortDirection;
+}
+
+export type GroupField = 'folder' | 'type';
+
+// Results sharing a parent directory or a FileType, counted across all pages
+export interface SearchGroup {
+  key: string; // The directory's full path, or the FileType
+  count: number;
+  size: number; // Bytes, of the files only, as folders already total what is below them
+}
+
+// A named query, shown as a smart folder with a live count of its matches
+export interface SavedSearch {
+  id: number;
+  name: string;
+  query: string;
+  filters: SearchFilters;
+  sort?: SearchSort;
+  pinned: boolean; // Also listed in the tray menu
+  createdAt: Date;
+  count?: number; // Filled in by the main process once counted
+}
+
+export type SavedSearchInput = Pick<SavedSearch, 'name' | 'query' | 'filters' | 'sort'> & { pinned?: boolean };
+
+// A search as run, for history
+export interface SearchHistoryRecord {
+  query: string;
+  resultCount: number;
+  executionTime: number;
+}
+
+// Every run of one query, summarised
+export interface SearchHistoryItem {
+  query: string;
+  lastUsed: Date;
+  timesSearched: number;
+  resultCount: number; // Of the latest run
+  executionTime: number; // Of the latest run
+  clicks: number; // Runs in which a result was opened or revealed
+}
+
+export interface SearchHistory {
+  recent: SearchHistoryItem[];
+  popular: SearchHistoryItem[]; // Run more than once, most often first
+  zeroResults: SearchHistoryItem[]; // Latest run found nothing
+  totalQueries: number; // Distinct queries in the history
+}
+
+// What is being completed: an ext: value, a folder for in:/path:/parent:,
+// or a file or folder name for plain text
+export type SuggestionKind = 'extension' | 'folder' | 'name';
+
+export interface SuggestionRequest {
+  kind: SuggestionKind;
+  prefix: string; // The part already typed
+}
+
+export interface Suggestion {
+  kind: SuggestionKind;
+  value: string; // Completes the prefix, e.g. "pdf" for ext:p
+  isDirectory?: boolean;
+  count?: number; // Indexed files with this extension or name
+}
+
+export interface FacetCount {
+  value: string; // What selecting it filters on: a FileType, an extension, a folder path or a period
+  label: string;
+  count: number;
+}
+
+export interface DateFacetCount extends FacetCount {
+  from?: Date;
+  to?: Date; // Exclusive
+}
+
+// Result counts by attribute, for narrowing a large result set
+export interface SearchFacets {
+  types: FacetCount[];
+  extensions: FacetCount[];
+  folders: FacetCount[]; // Top-level folders of the indexed locations
+  modified: DateFacetCount[]; // Nested periods: today, this week, this month, this year, then older
+}
+
 export interface SearchResult {
   items: FileItem[];
   totalCount: number;
   query: string;
   executionTime: number;
+  sort?: SearchSort; // The order actually applied, including one from a sort: operator
+  facets?: SearchFacets; // Only when requested with includeFacets
+  groups?: SearchGroup[]; // With groupBy: the groups of this page's items, in their order
+}
+
+// A streamed search sends its results as chunks on 'search-chunk', numbered
+// from 0 by seq, then 'search-stream' resolves with the summary
+export interface SearchChunk {
+  requestId: string;
+  seq: number;
+  items: FileItem[];
+}
+
+export interface SearchStreamSummary {
+  requestId: string;
+  totalCount: number;
+  query: string;
+  executionTime: number;
+  chunkCount: number;
+  sort?: SearchSort;
+  facets?: SearchFacets;
+  groups?: SearchGroup[];
 }
 
 export interface IndexingProgress {
@@ -50,6 +170,24 @@ export interface IndexingProgress {
   filesProcessed: number;
   totalFiles?: number;
   progress: number; // 0-100
+  resumed?: boolean; // This run carries on from an interrupted one
+  checkpoint?: IndexingCheckpointSummary; // An interrupted run that can be resumed, while not indexing
+}
+
+// Where an interrupted indexing run got to
+export interface IndexingCheckpointSummary {
+  paths: string[];
+  completedPaths: string[];
+  pendingDirectories: number; // Still to be walked under the paths not completed
+  filesProcessed: number;
+  updatedAt: Date;
+}
+
+export interface DatabaseStatus {
+  schemaVersion: number;
+  latestSchemaVersion: number;
+  error?: string;
+  backupPath?: string; // Copy taken before a destructive migration
 }
 
 export interface AppSettings {
@@ -61,17 +199,31 @@ export interface AppSettings {
   enableContentSearch: boolean;
 }
 
+export type FileUsageKind = 'open' | 'reveal';
+
+export interface UsageSettings {
+  learningEnabled: boolean; // Learn ranking from opened and revealed files
+  trackedFiles: number;
+}
+
 // IPC Types for Electron communication
 export interface IpcSearchRequest {
+  requestId: string; // Chosen by the renderer; pass it to cancel-search to stop this search
   query: string;
   filters: SearchFilters;
   limit?: number;
   offset?: number;
+  sortBy?: SortField; // A sort: operator in the query takes precedence
+  sortDirection?: SortDirection;
+  includeFacets?: boolean; // Facets describe all pages, so the first page is enough to ask
+  groupBy?: GroupField; // Keeps each group's results together across pages
 }
 
 export interface IpcIndexRequest {
   paths: string[];
   excludePaths?: string[];
+  rebuild?: boolean; // Empty the index first; otherwise it is updated in place
+  concurrency?: number; // Directories listed at once within each path
 }
 
 export interface IpcResponse<T = any> {
@@ -9,8 +9,8 @@ export default defineConfig({
     react(),
     electron({
       main: {
-        // Shortcut of `build.lib.entry`.
-        entry: 'electron/main.ts',
+        // Shortcut of `build.lib.entry`. Search and scan workers get their own bundles.
+        entry: ['electron/main.ts', 'electron/search-worker.ts', 'electron/scan-worker.ts'],
       },
       preload: {
         // Shortcut of `build.rollupOptions.input`.